@@ -0,0 +1,323 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { ModelData } from '../lib/types';
+import { scrapeOllamaModels, fetchFromOllama, ScrapeAbortedError } from '../lib/clientScraper';
+import { validateCatalog } from '../lib/catalogSchema';
+import { EXPORT_FORMATS, ExportFormat, exportModels, isExportFormat } from '../lib/export';
+import { SORT_FIELDS, SortField, filterAndSortModels } from '../lib/modelFilters';
+import { parseQuery, QuerySyntaxError } from '../lib/query';
+import { CatalogDiff, diffCatalogs, isEmptyDiff } from '../lib/catalogDiff';
+
+// ollama-explorer: build, convert, compare and upload catalogs without a browser.
+// Output goes to stdout (or --out), progress and errors to stderr.
+
+const EXIT_OK = 0;
+// Bad arguments, unreadable or invalid files, network errors
+const EXIT_ERROR = 1;
+// The scrape finished, but some model pages failed (those models kept previous or no versions)
+const EXIT_SCRAPE_FAILURES = 2;
+// diff --exit-code found differences
+const EXIT_CHANGES = 3;
+const EXIT_INTERRUPTED = 130;
+
+const USAGE = `Usage: ollama-explorer <command> [options]
+
+Commands:
+  scrape                       Scrape ollama.com into a catalog
+    --limit <n>                  Only the first n models
+    --previous <file>            Reuse versions of unchanged models from this catalog
+    --full                       Refetch every model even with --previous
+    --concurrency <n>            Detail pages fetched in parallel (default 4)
+    --requests-per-second <n>    Rate limit for ollama.com (default 5)
+    --retries <n>                Retries per request (default 3)
+
+  export <catalog>             Convert a catalog file
+    --q <query>                  Search query, same syntax as the search box
+    --capability <name>          Only models with this capability
+    --sort <field>, --dir <asc|desc>
+    --expand-versions            One row per tag
+
+  diff <before> <after>        Show what changed between two catalogs
+    --json                       Print the diff as JSON
+    --exit-code                  Exit with ${EXIT_CHANGES} when there are differences
+
+  push <catalog>               Upload a catalog to a running instance (POST /api/cache-models)
+    --url <base url>             e.g. http://localhost:4000
+    --token <token>              Write token (default: CATALOG_WRITE_TOKEN)
+    --force                      Replace a much larger cached catalog
+
+Options for scrape and export:
+  --format <${EXPORT_FORMATS.join('|')}>  Output format (default json)
+  --out <file>                 Write to a file instead of stdout
+
+Exit codes: ${EXIT_OK} ok, ${EXIT_ERROR} error, ${EXIT_SCRAPE_FAILURES} scrape had failed models, ${EXIT_CHANGES} diff found changes`;
+
+class CliError extends Error {
+  constructor(message: string, public exitCode: number = EXIT_ERROR) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+function readCatalog(file: string): ModelData[] {
+  let input: unknown;
+  try {
+    input = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error: any) {
+    throw new CliError(`Cannot read ${file}: ${error.message}`);
+  }
+
+  const { models, errors } = validateCatalog(input);
+  if (errors.length > 0) {
+    const issues = errors.slice(0, 10).map(issue => `  ${issue.path}: ${issue.message}`).join('\n');
+    throw new CliError(`${file} is not a valid catalog:\n${issues}${errors.length > 10 ? '\n  ...' : ''}`);
+  }
+  return models;
+}
+
+function writeOutput(content: string, out?: string) {
+  if (out) {
+    fs.writeFileSync(out, content);
+    console.error(`💾 Wrote ${out}`);
+  } else {
+    process.stdout.write(content.endsWith('\n') ? content : `${content}\n`);
+  }
+}
+
+function parseFormat(value: string | undefined): ExportFormat {
+  const format = value || 'json';
+  if (!isExportFormat(format)) {
+    throw new CliError(`--format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+  return format;
+}
+
+function parseCount(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    throw new CliError(`--${name} must be a whole number`);
+  }
+  return number;
+}
+
+async function scrape(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      limit: { type: 'string' },
+      previous: { type: 'string' },
+      full: { type: 'boolean' },
+      concurrency: { type: 'string' },
+      'requests-per-second': { type: 'string' },
+      retries: { type: 'string' },
+      format: { type: 'string' },
+      out: { type: 'string' }
+    }
+  });
+
+  const format = parseFormat(values.format);
+  const limit = parseCount(values.limit, 'limit');
+  const retries = parseCount(values.retries, 'retries');
+  const concurrency = parseCount(values.concurrency, 'concurrency');
+  const requestsPerSecond = values['requests-per-second'] !== undefined ? Number(values['requests-per-second']) : undefined;
+  if (requestsPerSecond !== undefined && !(requestsPerSecond > 0)) {
+    throw new CliError('--requests-per-second must be a positive number');
+  }
+
+  // Ctrl+C stops in-flight requests instead of leaving them running
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+
+  try {
+    const { models, failures } = await scrapeOllamaModels(
+      limit || Infinity,
+      message => console.error(message),
+      {
+        fetchHtml: fetchFromOllama,
+        previous: values.previous ? readCatalog(values.previous) : undefined,
+        full: values.full,
+        retry: retries !== undefined ? { retries } : undefined,
+        requestsPerSecond,
+        concurrency: concurrency !== undefined ? Math.max(1, concurrency) : undefined,
+        signal: controller.signal
+      }
+    );
+
+    if (models.length === 0) {
+      throw new CliError('No models found on ollama.com; the page markup may have changed');
+    }
+
+    writeOutput(exportModels(models, format), values.out);
+
+    if (failures.length > 0) {
+      console.error(`⚠️ ${failures.length} model(s) failed:`);
+      failures.forEach(failure => console.error(`  ${failure.model}: ${failure.error}${failure.keptPrevious ? ' (kept previous versions)' : ''}`));
+      return EXIT_SCRAPE_FAILURES;
+    }
+    return EXIT_OK;
+  } catch (error) {
+    if (error instanceof ScrapeAbortedError) {
+      throw new CliError('Scrape interrupted', EXIT_INTERRUPTED);
+    }
+    throw error;
+  }
+}
+
+async function exportCatalog(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      q: { type: 'string' },
+      capability: { type: 'string' },
+      sort: { type: 'string' },
+      dir: { type: 'string' },
+      'expand-versions': { type: 'boolean' },
+      format: { type: 'string' },
+      out: { type: 'string' }
+    }
+  });
+
+  if (positionals.length !== 1) throw new CliError('export takes one catalog file');
+
+  const format = parseFormat(values.format);
+  const sort = values.sort || 'name';
+  const dir = values.dir || 'asc';
+  if (!(SORT_FIELDS as string[]).includes(sort) || (dir !== 'asc' && dir !== 'desc')) {
+    throw new CliError(`--sort must be one of: ${SORT_FIELDS.join(', ')}; --dir must be asc or desc`);
+  }
+
+  let query;
+  try {
+    query = parseQuery(values.q || '');
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) throw new CliError(`Invalid query: ${error.message}`);
+    throw error;
+  }
+
+  const models = filterAndSortModels(readCatalog(positionals[0]), {
+    query,
+    capability: values.capability?.toLowerCase() || null,
+    sortField: sort as SortField,
+    sortDirection: dir
+  });
+
+  writeOutput(exportModels(models, format, { perVersion: values['expand-versions'] }), values.out);
+  return EXIT_OK;
+}
+
+// One line per added, removed or changed model
+function formatDiff(diff: CatalogDiff): string {
+  const lines = [
+    ...diff.addedModels.map(name => `+ ${name}`),
+    ...diff.removedModels.map(name => `- ${name}`),
+    ...diff.changedModels.map(change => {
+      const details = [
+        change.addedTags.length > 0 && `new tags: ${change.addedTags.join(', ')}`,
+        change.removedTags.length > 0 && `removed tags: ${change.removedTags.join(', ')}`,
+        ...change.changes.map(c => `${c.tag ? `${c.tag} ` : ''}${c.field}: ${c.before} → ${c.after}`)
+      ].filter(Boolean);
+      return `~ ${change.name}: ${details.join(' · ')}`;
+    }),
+    `${diff.addedModels.length} added, ${diff.removedModels.length} removed, ${diff.changedModels.length} changed`
+  ];
+  return lines.join('\n');
+}
+
+async function diff(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean' },
+      'exit-code': { type: 'boolean' }
+    }
+  });
+
+  if (positionals.length !== 2) throw new CliError('diff takes two catalog files');
+
+  const result = diffCatalogs(readCatalog(positionals[0]), readCatalog(positionals[1]));
+  writeOutput(values.json ? JSON.stringify(result, null, 2) : formatDiff(result));
+  return values['exit-code'] && !isEmptyDiff(result) ? EXIT_CHANGES : EXIT_OK;
+}
+
+async function push(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      token: { type: 'string' },
+      force: { type: 'boolean' }
+    }
+  });
+
+  if (positionals.length !== 1) throw new CliError('push takes one catalog file');
+  if (!values.url) throw new CliError('--url is required, e.g. --url http://localhost:4000');
+
+  const token = values.token || process.env.CATALOG_WRITE_TOKEN;
+  if (!token) throw new CliError('A write token is required: pass --token or set CATALOG_WRITE_TOKEN');
+
+  // Validate locally first so a bad file fails fast with the same messages
+  const models = readCatalog(positionals[0]);
+  const endpoint = `${values.url.replace(/\/+$/, '')}/api/cache-models`;
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ models, force: values.force || undefined })
+    });
+  } catch (error: any) {
+    throw new CliError(`Cannot reach ${endpoint}: ${error.cause?.message || error.message}`);
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const issues = Array.isArray(data.issues)
+      ? data.issues.slice(0, 10).map((issue: { path: string; message: string }) => `\n  ${issue.path}: ${issue.message}`).join('')
+      : '';
+    throw new CliError(`${response.status} ${data.error || response.statusText}: ${data.message || ''}${issues}`);
+  }
+
+  console.error(`✅ ${data.message}`);
+  return EXIT_OK;
+}
+
+const COMMANDS: Record<string, (args: string[]) => Promise<number>> = {
+  scrape,
+  export: exportCatalog,
+  diff,
+  push
+};
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (!command || command === '--help' || command === '-h' || command === 'help') {
+    console.log(USAGE);
+    return;
+  }
+
+  const run = COMMANDS[command];
+  if (!run) {
+    console.error(`Unknown command "${command}"\n\n${USAGE}`);
+    process.exitCode = EXIT_ERROR;
+    return;
+  }
+
+  try {
+    process.exitCode = await run(args);
+  } catch (error: any) {
+    console.error(`❌ ${error?.message || String(error)}`);
+    process.exitCode = error instanceof CliError ? error.exitCode : EXIT_ERROR;
+  }
+}
+
+main();
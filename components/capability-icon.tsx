@@ -0,0 +1,26 @@
+import React from 'react';
+import { Code2, Brain, ImageIcon, MessagesSquare, Sparkles } from 'lucide-react';
+
+// Mapping capabilities to their appropriate icons
+const CAPABILITY_ICONS: Record<string, React.ReactNode> = {
+  'vision': <ImageIcon className="w-3.5 h-3.5" />,
+  'image': <ImageIcon className="w-3.5 h-3.5" />,
+  'chat': <MessagesSquare className="w-3.5 h-3.5" />,
+  'code': <Code2 className="w-3.5 h-3.5" />,
+  'embedding': <Brain className="w-3.5 h-3.5" />,
+};
+
+// Display proper icon for capability
+export function getCapabilityIcon(capability: string) {
+  const lowerCap = capability.toLowerCase();
+  
+  // Check for each capability type
+  for (const [key, icon] of Object.entries(CAPABILITY_ICONS)) {
+    if (lowerCap.includes(key)) {
+      return icon;
+    }
+  }
+  
+  // Default icon if no specific one is found
+  return <Sparkles className="w-3.5 h-3.5" />;
+}
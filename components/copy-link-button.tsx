@@ -0,0 +1,32 @@
+import React, { useState } from 'react';
+import { Check, Link2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+
+// Copies the current URL, which holds the search, filters and sort
+export function CopyLinkButton() {
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={copyLink}
+      title="Copy a link to this view"
+      className="h-9 text-xs bg-zinc-900 border-zinc-800 hover:bg-zinc-800 text-white shrink-0"
+    >
+      {copied ? <Check className="h-3.5 w-3.5 mr-1 text-green-400" /> : <Link2 className="h-3.5 w-3.5 mr-1" />}
+      {copied ? 'Copied' : 'Copy link'}
+    </Button>
+  );
+}
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { ModelData } from '@/lib/types';
+import {
+  ExportFormat,
+  exportModels,
+  getExportContentType,
+  getExportFilename
+} from '@/lib/export';
+
+interface ExportMenuProps {
+  // The models currently shown in the table, already filtered and sorted
+  models: ModelData[];
+}
+
+const FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'markdown', label: 'Markdown table' }
+];
+
+export function ExportMenu({ models }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [perVersion, setPerVersion] = useState(false);
+
+  // Build the file in the browser so the export matches the table exactly
+  const download = (format: ExportFormat) => {
+    const content = exportModels(models, format, { perVersion });
+    const blob = new Blob([content], { type: getExportContentType(format) });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getExportFilename(format, { perVersion });
+    link.click();
+
+    URL.revokeObjectURL(url);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(!open)}
+        disabled={models.length === 0}
+        className="h-9 text-xs bg-zinc-900 border-zinc-800 hover:bg-zinc-800 text-white"
+      >
+        <Download className="h-3.5 w-3.5 mr-1" />
+        Export
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 z-10 mt-1 w-48 bg-zinc-900 border border-zinc-800 rounded-md shadow-xl p-1 text-sm">
+          {FORMATS.map(format => (
+            <button
+              key={format.value}
+              onClick={() => download(format.value)}
+              className="w-full text-left px-3 py-1.5 rounded text-zinc-300 hover:bg-zinc-800 hover:text-white"
+            >
+              {format.label}
+            </button>
+          ))}
+          <label className="flex items-center gap-2 px-3 py-1.5 mt-1 border-t border-zinc-800 text-xs text-zinc-400">
+            <input
+              type="checkbox"
+              checked={perVersion}
+              onChange={(e) => setPerVersion(e.target.checked)}
+              className="accent-white"
+            />
+            One row per tag
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
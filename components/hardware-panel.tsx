@@ -0,0 +1,82 @@
+import React from 'react';
+import { Cpu } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { HardwareProfile, FitFilter } from '@/lib/hardware';
+
+interface HardwarePanelProps {
+  profile: HardwareProfile;
+  onProfileChange: (profile: HardwareProfile) => void;
+  fitFilter: FitFilter;
+  onFitFilterChange: (filter: FitFilter) => void;
+}
+
+const FIT_FILTERS: { value: FitFilter; label: string }[] = [
+  { value: 'all', label: 'All models' },
+  { value: 'fits', label: 'Fits' },
+  { value: 'runs', label: 'Fits or partial' }
+];
+
+// Numeric profile fields and how they are shown
+const PROFILE_FIELDS: { key: 'ramGB' | 'vramGB' | 'contextTokens' | 'overheadPercent'; label: string; unit: string; scale: number }[] = [
+  { key: 'ramGB', label: 'RAM', unit: 'GB', scale: 1 },
+  { key: 'vramGB', label: 'VRAM', unit: 'GB', scale: 1 },
+  { key: 'contextTokens', label: 'Context', unit: 'K', scale: 1024 },
+  { key: 'overheadPercent', label: 'Overhead', unit: '%', scale: 1 }
+];
+
+export function HardwarePanel({ profile, onProfileChange, fitFilter, onFitFilterChange }: HardwarePanelProps) {
+  const updateField = (key: typeof PROFILE_FIELDS[number]['key'], scale: number, value: string) => {
+    const number = parseFloat(value);
+    onProfileChange({ ...profile, [key]: isNaN(number) || number < 0 ? 0 : Math.round(number * scale) });
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto mb-4">
+      <div className="flex justify-center">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onProfileChange({ ...profile, enabled: !profile.enabled })}
+          className={`rounded-full text-xs font-medium gap-1 px-3 py-0.5 h-7 ${profile.enabled ? 'bg-zinc-700 hover:bg-zinc-600 text-white border-zinc-600' : 'bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-900 hover:text-white'}`}
+        >
+          <Cpu className="h-3.5 w-3.5" />
+          {profile.enabled ? 'Hardware fit: on' : 'Check hardware fit'}
+        </Button>
+      </div>
+
+      {profile.enabled && (
+        <div className="mt-3 bg-zinc-900 border border-zinc-800 rounded-lg p-3 flex flex-wrap items-end justify-center gap-3">
+          {PROFILE_FIELDS.map(field => (
+            <label key={field.key} className="text-xs text-zinc-400 flex flex-col gap-1">
+              <span>{field.label} ({field.unit})</span>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={profile[field.key] / field.scale}
+                onChange={(e) => updateField(field.key, field.scale, e.target.value)}
+                className="h-8 w-24 text-sm bg-zinc-950 border-zinc-800 text-white"
+              />
+            </label>
+          ))}
+
+          <div className="flex gap-1">
+            {FIT_FILTERS.map(filter => (
+              <Button
+                key={filter.value}
+                variant="outline"
+                size="sm"
+                onClick={() => onFitFilterChange(filter.value)}
+                className={`text-xs h-8 ${fitFilter === filter.value ? 'bg-zinc-700 hover:bg-zinc-600 text-white border-zinc-600' : 'bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-900 hover:text-white'}`}
+              >
+                {filter.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Upload } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ValidationIssue } from '@/lib/catalogSchema';
+
+interface ImportMenuProps {
+  disabled?: boolean;
+  // Called after the server accepted the catalog
+  onImported: () => void;
+}
+
+// Upload a catalog JSON file (e.g. a JSON export or public/ollama.json) to /api/import
+export function ImportMenu({ disabled, onImported }: ImportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [token, setToken] = useState('');
+  const [importing, setImporting] = useState(false);
+  // canForce: the server refused to replace a much larger catalog
+  const [result, setResult] = useState<{ ok: boolean; message: string; issues?: ValidationIssue[]; canForce?: boolean } | null>(null);
+
+  const importCatalog = async (force: boolean = false) => {
+    if (!file) return;
+    setImporting(true);
+    setResult(null);
+
+    try {
+      // Parse locally first so a wrong file fails before it is uploaded
+      const catalog = JSON.parse(await file.text());
+      const response = await fetch(`/api/import${force ? '?force=true' : ''}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`
+        },
+        body: JSON.stringify(catalog)
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setResult({
+          ok: false,
+          message: data.message || `HTTP ${response.status}`,
+          issues: data.issues,
+          canForce: response.status === 409 && data.error === 'Catalog would shrink'
+        });
+        return;
+      }
+
+      setResult({ ok: true, message: data.message });
+      setFile(null);
+      onImported();
+    } catch (error: any) {
+      setResult({ ok: false, message: error instanceof SyntaxError ? 'The file is not valid JSON' : error.message });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        className="text-xs bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-white disabled:opacity-50"
+      >
+        <Upload className="h-3 w-3 mr-1" />
+        Import
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 z-10 mt-1 w-80 bg-zinc-900 border border-zinc-800 rounded-md shadow-xl p-3 space-y-2 text-xs text-zinc-400">
+          <p>Replace the catalog with a JSON file. Requires the server&apos;s write token.</p>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+            className="w-full text-zinc-300 file:mr-2 file:rounded file:border-0 file:bg-zinc-800 file:px-2 file:py-1 file:text-white"
+          />
+          <Input
+            type="password"
+            placeholder="Write token"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            className="h-8 text-xs bg-zinc-950 border-zinc-800 text-white"
+          />
+          <Button
+            size="sm"
+            onClick={() => importCatalog()}
+            disabled={!file || !token || importing}
+            className="w-full h-8 text-xs bg-white text-black hover:bg-zinc-200"
+          >
+            {importing ? 'Importing...' : 'Import catalog'}
+          </Button>
+
+          {result && (
+            <div className={result.ok ? 'text-green-400' : 'text-red-400'}>
+              <p>{result.message}</p>
+              {result.issues && result.issues.length > 0 && (
+                <ul className="mt-1 max-h-32 overflow-y-auto font-mono space-y-0.5">
+                  {result.issues.map((issue, index) => (
+                    <li key={index}>{issue.path}: {issue.message}</li>
+                  ))}
+                </ul>
+              )}
+              {result.canForce && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => importCatalog(true)}
+                  disabled={importing}
+                  className="mt-2 w-full h-8 text-xs bg-transparent border-red-800 text-red-300 hover:bg-red-950 hover:text-red-200"
+                >
+                  Replace anyway
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Copy, Download, HardDrive, Trash2, X } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { PullJob } from '@/lib/types';
+
+interface LocalModelActionsProps {
+  // Full model name with tag, e.g. "llama3.2:3b"
+  tag: string;
+  size: string;
+  installed: boolean;
+  // Pull, delete and copy are allowed on the server
+  actionsEnabled: boolean;
+  // Queued or running pull of this tag
+  job?: PullJob;
+  onPull: (tag: string) => void;
+  onCancelPull: (job: PullJob) => void;
+  onDelete: (tag: string) => void;
+  onCopy: (tag: string, destination: string) => void;
+}
+
+// Every action asks for confirmation in place before it runs
+type Pending = 'pull' | 'delete' | 'copy' | null;
+
+const buttonClass = 'h-7 text-xs bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-white hover:text-white';
+
+export function LocalModelActions({ tag, size, installed, actionsEnabled, job, onPull, onCancelPull, onDelete, onCopy }: LocalModelActionsProps) {
+  const [pending, setPending] = useState<Pending>(null);
+  const [destination, setDestination] = useState('');
+
+  const confirm = () => {
+    if (pending === 'pull') onPull(tag);
+    if (pending === 'delete') onDelete(tag);
+    if (pending === 'copy' && destination.trim()) onCopy(tag, destination.trim());
+    setPending(null);
+    setDestination('');
+  };
+
+  const cancel = () => {
+    setPending(null);
+    setDestination('');
+  };
+
+  if (job) {
+    const percent = job.total ? Math.round(((job.completed || 0) / job.total) * 100) : null;
+    return (
+      <div className="flex items-center gap-2 text-xs text-zinc-400">
+        <span>{job.status === 'queued' ? 'Queued' : `${job.detail || 'Pulling'}${percent !== null ? ` ${percent}%` : ''}`}</span>
+        <Button variant="ghost" size="icon" onClick={() => onCancelPull(job)} aria-label={`Cancel pulling ${tag}`} className="h-6 w-6 text-zinc-400 hover:text-white hover:bg-zinc-800">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  if (pending) {
+    return (
+      <div className="flex items-center gap-1.5 text-xs text-zinc-300">
+        {pending === 'pull' && <span>Download {size}?</span>}
+        {pending === 'delete' && <span>Delete {tag}?</span>}
+        {pending === 'copy' && (
+          <Input
+            autoFocus
+            value={destination}
+            onChange={(e) => setDestination(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && confirm()}
+            placeholder="new-name:tag"
+            aria-label={`Copy ${tag} as`}
+            className="h-7 w-36 text-xs bg-zinc-950 border-zinc-800 text-white"
+          />
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={confirm}
+          disabled={pending === 'copy' && !destination.trim()}
+          className={pending === 'delete' ? 'h-7 text-xs bg-red-950 hover:bg-red-900 border-red-800 text-red-200' : buttonClass}
+        >
+          {pending === 'delete' ? 'Delete' : 'Confirm'}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={cancel} className="h-7 text-xs text-zinc-400 hover:text-white hover:bg-zinc-800">
+          Cancel
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1.5">
+      {installed && (
+        <Badge variant="outline" className="bg-green-950 text-green-300 border-green-800 flex items-center gap-1 text-xs">
+          <HardDrive className="h-3 w-3" />
+          Installed
+        </Badge>
+      )}
+      {actionsEnabled && !installed && (
+        <Button variant="outline" size="sm" onClick={() => setPending('pull')} className={buttonClass}>
+          <Download className="h-3 w-3 mr-1" />
+          Pull
+        </Button>
+      )}
+      {actionsEnabled && installed && (
+        <>
+          <Button variant="outline" size="icon" onClick={() => setPending('copy')} aria-label={`Copy ${tag}`} className="h-7 w-7 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-white hover:text-white">
+            <Copy className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => setPending('delete')} aria-label={`Delete ${tag}`} className="h-7 w-7 bg-zinc-800 hover:bg-red-950 border border-zinc-700 text-white hover:text-red-200">
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import React from 'react';
+import { HardDrive, RefreshCw } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { LocalModelsResponse } from '@/lib/types';
+import { InstallFilter, formatDiskSize } from '@/lib/localModels';
+
+interface LocalModelsPanelProps {
+  // Null until the first check finished
+  local: LocalModelsResponse | null;
+  checking: boolean;
+  onRecheck: () => void;
+  installFilter: InstallFilter;
+  onInstallFilterChange: (filter: InstallFilter) => void;
+}
+
+const INSTALL_FILTERS: { value: InstallFilter; label: string }[] = [
+  { value: 'all', label: 'All models' },
+  { value: 'installed', label: 'Installed' },
+  { value: 'not-installed', label: 'Not installed' }
+];
+
+export function LocalModelsPanel({ local, checking, onRecheck, installFilter, onInstallFilterChange }: LocalModelsPanelProps) {
+  if (!local) return null;
+
+  const diskBytes = local.models.reduce((total, model) => total + model.sizeBytes, 0);
+
+  return (
+    <div className="w-full max-w-3xl mx-auto mb-4 flex flex-wrap items-center justify-center gap-2 text-xs text-zinc-400">
+      <HardDrive className="h-3.5 w-3.5" />
+      {local.available ? (
+        <span>
+          Ollama at <span className="text-zinc-300">{local.host}</span>: {local.models.length} installed, {formatDiskSize(diskBytes)} on disk
+        </span>
+      ) : (
+        <span title={local.message}>No Ollama server reachable at <span className="text-zinc-300">{local.host}</span></span>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onRecheck}
+        disabled={checking}
+        aria-label="Check local Ollama again"
+        className="h-6 w-6 text-zinc-400 hover:text-white hover:bg-zinc-800"
+      >
+        <RefreshCw className={`h-3 w-3 ${checking ? 'animate-spin' : ''}`} />
+      </Button>
+
+      {local.available && (
+        <div className="flex gap-1">
+          {INSTALL_FILTERS.map(filter => (
+            <Button
+              key={filter.value}
+              variant="outline"
+              size="sm"
+              onClick={() => onInstallFilterChange(filter.value)}
+              className={`text-xs h-7 ${installFilter === filter.value ? 'bg-zinc-700 hover:bg-zinc-600 text-white border-zinc-600' : 'bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-900 hover:text-white'}`}
+            >
+              {filter.label}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import React from 'react';
+import { Download, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { PullJob } from '@/lib/types';
+
+interface PullQueuePanelProps {
+  jobs: PullJob[];
+  onCancel: (job: PullJob) => void;
+}
+
+const STATUS_STYLES: Record<PullJob['status'], string> = {
+  queued: 'text-zinc-400',
+  pulling: 'text-blue-300',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-zinc-500'
+};
+
+// Pulls queued on the Ollama server, with download progress for the running one
+export function PullQueuePanel({ jobs, onCancel }: PullQueuePanelProps) {
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-3 mb-4">
+      <div className="flex items-center gap-1.5 text-xs font-medium text-zinc-400 uppercase tracking-wide mb-2">
+        <Download className="h-3.5 w-3.5" />
+        Pulls
+      </div>
+      <ul className="space-y-2">
+        {jobs.map(job => {
+          const percent = job.total ? Math.round(((job.completed || 0) / job.total) * 100) : null;
+          const active = job.status === 'queued' || job.status === 'pulling';
+
+          return (
+            <li key={job.id} className="text-xs">
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-white">{job.model}</span>
+                <span className={STATUS_STYLES[job.status]}>
+                  {job.status === 'pulling' ? job.detail || 'pulling' : job.status}
+                  {job.status === 'failed' && job.error ? `: ${job.error}` : ''}
+                </span>
+                {active && (
+                  <Button variant="ghost" size="icon" onClick={() => onCancel(job)} aria-label={`Cancel pulling ${job.model}`} className="h-5 w-5 ml-auto text-zinc-400 hover:text-white hover:bg-zinc-800">
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+              {job.status === 'pulling' && percent !== null && (
+                <div className="w-full bg-zinc-800 h-1.5 rounded-full overflow-hidden mt-1">
+                  <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
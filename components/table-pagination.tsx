@@ -0,0 +1,64 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+
+interface TablePaginationProps {
+  // 0 shows every row in one scrolling (virtualized) list
+  pageSize: number;
+  onPageSizeChange: (pageSize: number) => void;
+  page: number;
+  onPageChange: (page: number) => void;
+  rowCount: number;
+}
+
+export const PAGE_SIZES = [0, 50, 100, 250];
+
+export function TablePagination({ pageSize, onPageSizeChange, page, onPageChange, rowCount }: TablePaginationProps) {
+  const pageCount = pageSize > 0 ? Math.max(1, Math.ceil(rowCount / pageSize)) : 1;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 border-t border-zinc-800 text-xs text-zinc-400">
+      <div className="flex items-center gap-1">
+        <span className="mr-1">Rows per page</span>
+        {PAGE_SIZES.map(size => (
+          <Button
+            key={size}
+            variant="outline"
+            size="sm"
+            onClick={() => onPageSizeChange(size)}
+            className={`text-xs h-7 px-2 ${pageSize === size ? 'bg-zinc-700 hover:bg-zinc-600 text-white border-zinc-600' : 'bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-900 hover:text-white'}`}
+          >
+            {size === 0 ? 'All' : size}
+          </Button>
+        ))}
+      </div>
+
+      {pageSize > 0 && (
+        <div className="flex items-center gap-2">
+          <span>Page {page + 1} of {pageCount}</span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onPageChange(page - 1)}
+            disabled={page === 0}
+            aria-label="Previous page"
+            className="h-7 w-7 bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-900 hover:text-white"
+          >
+            <ChevronLeft className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onPageChange(page + 1)}
+            disabled={page >= pageCount - 1}
+            aria-label="Next page"
+            className="h-7 w-7 bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-900 hover:text-white"
+          >
+            <ChevronRight className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+
+import { Input } from '@/components/ui/input';
+import { TagFilter } from '@/lib/tagInfo';
+
+interface TagFilterPanelProps {
+  filter: TagFilter;
+  onFilterChange: (filter: TagFilter) => void;
+  quantizations: string[];
+  variants: string[];
+}
+
+const SELECT_CLASS = 'h-8 rounded-md border border-zinc-800 bg-zinc-950 px-2 text-sm text-white';
+
+export function TagFilterPanel({ filter, onFilterChange, quantizations, variants }: TagFilterPanelProps) {
+  // Parameter bounds are entered in billions
+  const updateParameters = (key: 'minParameters' | 'maxParameters', value: string) => {
+    const number = parseFloat(value);
+    onFilterChange({ ...filter, [key]: isNaN(number) || number < 0 ? undefined : Math.round(number * 1e9) });
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto mb-4 flex flex-wrap items-end justify-center gap-3 text-xs text-zinc-400">
+      <div className="flex items-center gap-1 h-8">
+        <Layers className="h-3.5 w-3.5" />
+        <span>Tags</span>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        <span>Quantization</span>
+        <select
+          value={filter.quantization ?? ''}
+          onChange={(e) => onFilterChange({ ...filter, quantization: e.target.value || null })}
+          className={SELECT_CLASS}
+        >
+          <option value="">Any</option>
+          {quantizations.map(quantization => (
+            <option key={quantization} value={quantization}>{quantization}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span>Variant</span>
+        <select
+          value={filter.variant ?? ''}
+          onChange={(e) => onFilterChange({ ...filter, variant: e.target.value || null })}
+          className={SELECT_CLASS}
+        >
+          <option value="">Any</option>
+          {variants.map(variant => (
+            <option key={variant} value={variant}>{variant}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span>Min params (B)</span>
+        <Input
+          type="number"
+          min={0}
+          step="any"
+          value={filter.minParameters !== undefined ? filter.minParameters / 1e9 : ''}
+          onChange={(e) => updateParameters('minParameters', e.target.value)}
+          className="h-8 w-24 text-sm bg-zinc-950 border-zinc-800 text-white"
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        <span>Max params (B)</span>
+        <Input
+          type="number"
+          min={0}
+          step="any"
+          value={filter.maxParameters !== undefined ? filter.maxParameters / 1e9 : ''}
+          onChange={(e) => updateParameters('maxParameters', e.target.value)}
+          className="h-8 w-24 text-sm bg-zinc-950 border-zinc-800 text-white"
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Bell, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { ChangesResponse } from '@/lib/catalogDiff';
+import { describeWatchedChange, getWatchlistChanges, loadSeenSnapshot, saveSeenSnapshot } from '@/lib/watchlist';
+
+interface WatchlistNotificationProps {
+  changes: ChangesResponse | null;
+  watchlist: string[];
+}
+
+// Shown once per refresh when watched models changed since the previous one
+export function WatchlistNotification({ changes, watchlist }: WatchlistNotificationProps) {
+  // Undefined until read from localStorage, so nothing flashes before that
+  const [seenSnapshot, setSeenSnapshot] = useState<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    setSeenSnapshot(loadSeenSnapshot());
+  }, []);
+
+  if (!changes?.from || !changes.to || seenSnapshot === undefined || seenSnapshot === changes.to.id) return null;
+
+  const { changed, removed } = getWatchlistChanges(changes, watchlist);
+  if (changed.length === 0 && removed.length === 0) return null;
+
+  const dismiss = () => {
+    saveSeenSnapshot(changes.to!.id);
+    setSeenSnapshot(changes.to!.id);
+  };
+
+  return (
+    <div role="status" className="mb-4 bg-amber-950/40 border border-amber-800 rounded-lg px-4 py-3 text-sm">
+      <div className="flex items-center gap-2 text-amber-200">
+        <Bell className="h-4 w-4" />
+        <span className="font-medium">
+          {changed.length + removed.length} watched model{changed.length + removed.length === 1 ? '' : 's'} changed
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={dismiss}
+          aria-label="Dismiss watchlist notification"
+          className="h-6 w-6 ml-auto text-amber-200 hover:text-white hover:bg-amber-900/50"
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      <ul className="mt-2 space-y-1 text-xs text-zinc-300">
+        {changed.map(change => (
+          <li key={change.name}>
+            <Link href={`/models/${encodeURIComponent(change.name)}`} className="text-white hover:underline">
+              {change.name}
+            </Link>
+            <span className="text-zinc-400"> · {describeWatchedChange(change)}</span>
+          </li>
+        ))}
+        {removed.map(name => (
+          <li key={name}>
+            <span className="text-white">{name}</span>
+            <span className="text-red-400"> · removed from the catalog</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
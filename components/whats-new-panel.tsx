@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { ChevronDown, ChevronRight, History } from 'lucide-react';
+
+import { ChangesResponse, FieldChange, isEmptyDiff } from '@/lib/catalogDiff';
+
+interface WhatsNewPanelProps {
+  changes: ChangesResponse | null;
+}
+
+const modelLink = (name: string) => (
+  <Link key={name} href={`/models/${encodeURIComponent(name)}`} className="text-white hover:underline">
+    {name}
+  </Link>
+);
+
+const describeChange = (change: FieldChange) => {
+  if (change.field === 'description') return 'description updated';
+  if (change.field === 'updated') return `updated ${change.after}`;
+  return `${change.tag} ${change.field} ${change.before || '–'} → ${change.after || '–'}`;
+};
+
+// Summary of the differences between the last two refreshes
+export function WhatsNewPanel({ changes }: WhatsNewPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (!changes || !changes.from || isEmptyDiff(changes)) return null;
+
+  const summary = [
+    changes.addedModels.length > 0 && `${changes.addedModels.length} new`,
+    changes.removedModels.length > 0 && `${changes.removedModels.length} removed`,
+    changes.changedModels.length > 0 && `${changes.changedModels.length} changed`
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="mb-4 bg-zinc-900 border border-zinc-800 rounded-lg text-sm">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 px-4 py-2.5 text-left text-zinc-300 hover:text-white"
+      >
+        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        <History className="h-4 w-4" />
+        <span className="font-medium">What&apos;s new</span>
+        <span className="text-zinc-500">{summary}</span>
+        <span className="ml-auto text-xs text-zinc-500">
+          since {new Date(changes.from.createdAt).toLocaleString()}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-3 space-y-3 text-xs text-zinc-400">
+          {changes.addedModels.length > 0 && (
+            <div>
+              <h4 className="text-green-400 font-medium mb-1">New models</h4>
+              <div className="flex flex-wrap gap-x-3 gap-y-1">{changes.addedModels.map(modelLink)}</div>
+            </div>
+          )}
+
+          {changes.removedModels.length > 0 && (
+            <div>
+              <h4 className="text-red-400 font-medium mb-1">Removed models</h4>
+              <div className="flex flex-wrap gap-x-3 gap-y-1">{changes.removedModels.join(', ')}</div>
+            </div>
+          )}
+
+          {changes.changedModels.length > 0 && (
+            <div>
+              <h4 className="text-yellow-400 font-medium mb-1">Changed models</h4>
+              <ul className="space-y-1 max-h-48 overflow-y-auto">
+                {changes.changedModels.map(change => (
+                  <li key={change.name}>
+                    {modelLink(change.name)}
+                    {change.addedTags.length > 0 && <span className="text-green-400"> +{change.addedTags.join(', +')}</span>}
+                    {change.removedTags.length > 0 && <span className="text-red-400"> −{change.removedTags.join(', −')}</span>}
+                    {change.changes.length > 0 && <span> · {change.changes.map(describeChange).join('; ')}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
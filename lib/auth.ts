@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import type { NextApiRequest } from 'next';
+import { isOllamaActionsEnabled } from './ollamaClient';
+
+// Shared secret for routes that replace the catalog (CATALOG_WRITE_TOKEN)
+export function getWriteToken(): string | null {
+  return process.env.CATALOG_WRITE_TOKEN || null;
+}
+
+// Token sent as "Authorization: Bearer <token>" or "X-Catalog-Token: <token>"
+function getRequestToken(req: NextApiRequest): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  const header = req.headers['x-catalog-token'];
+  return typeof header === 'string' ? header : null;
+}
+
+// Constant-time comparison so the token cannot be guessed byte by byte
+function tokensMatch(expected: string, actual: string): boolean {
+  const a = crypto.createHash('sha256').update(expected).digest();
+  const b = crypto.createHash('sha256').update(actual).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+// False when no write token is configured: writes are disabled rather than open
+export function isWriteAuthorized(req: NextApiRequest): boolean {
+  const expected = getWriteToken();
+  const actual = getRequestToken(req);
+  return expected !== null && actual !== null && tokensMatch(expected, actual);
+}
+
+export interface AccessError {
+  status: 401 | 403;
+  error: string;
+  message: string;
+}
+
+// Pull, delete and copy change the models on the server's Ollama, so they need
+// OLLAMA_ACTIONS_ENABLED and the write token; null when the request may go ahead
+export function getOllamaActionsAccessError(req: NextApiRequest): AccessError | null {
+  if (!isOllamaActionsEnabled() || !getWriteToken()) {
+    return {
+      status: 403,
+      error: 'Actions disabled',
+      message: 'Set OLLAMA_ACTIONS_ENABLED=true and CATALOG_WRITE_TOKEN on the server to allow Ollama actions'
+    };
+  }
+
+  if (!isWriteAuthorized(req)) {
+    return {
+      status: 401,
+      error: 'Unauthorized',
+      message: 'A valid write token is required for Ollama actions'
+    };
+  }
+
+  return null;
+}
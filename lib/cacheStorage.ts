@@ -0,0 +1,182 @@
+import fs from 'fs';
+import path from 'path';
+import { CachedData, CacheStorageKind, CatalogSnapshot, SnapshotInfo } from './types';
+
+// Persistence backend behind dataCache
+export interface CacheStorage {
+  kind: CacheStorageKind;
+  load(): CachedData | null;
+  save(data: CachedData): void;
+  clear(): void;
+  // Snapshot history, oldest first
+  saveSnapshot(snapshot: CatalogSnapshot): void;
+  listSnapshots(): SnapshotInfo[];
+  loadSnapshot(id: string): CatalogSnapshot | null;
+}
+
+const CACHE_FILE_NAME = 'models-cache.json';
+const SNAPSHOT_DIR_NAME = 'snapshots';
+
+// Number of snapshots kept before the oldest are dropped (SNAPSHOT_LIMIT)
+const SNAPSHOT_LIMIT = Math.max(2, parseInt(process.env.SNAPSHOT_LIMIT || '30', 10) || 30);
+
+// Snapshot ids double as file names, so keep them free of ":" and "."
+export function createSnapshotId(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+const toSnapshotInfo = (snapshot: CatalogSnapshot): SnapshotInfo => ({
+  id: snapshot.id,
+  createdAt: snapshot.createdAt,
+  modelCount: snapshot.models.length
+});
+
+// Write JSON to a temp file and rename so readers never see a partial file
+function writeJsonAtomic(filePath: string, data: unknown): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(data));
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// Restore Date fields that JSON turned into strings
+function reviveCachedData(raw: any): CachedData | null {
+  if (!raw || !Array.isArray(raw.models)) return null;
+
+  return {
+    models: raw.models,
+    lastUpdated: new Date(raw.lastUpdated),
+    limit: raw.limit,
+    source: raw.source,
+    failures: raw.failures,
+    // A scrape cannot still be running after a restart
+    status: 'ready',
+    logs: (raw.logs || []).map((log: any) => ({
+      ...log,
+      timestamp: new Date(log.timestamp)
+    }))
+  };
+}
+
+// Keeps data for the lifetime of the process only
+export function createMemoryStorage(): CacheStorage {
+  let stored: CachedData | null = null;
+  let snapshots: CatalogSnapshot[] = [];
+
+  return {
+    kind: 'memory',
+    load() {
+      return stored;
+    },
+    save(data) {
+      stored = data;
+    },
+    clear() {
+      stored = null;
+    },
+    saveSnapshot(snapshot) {
+      snapshots = [...snapshots, snapshot].slice(-SNAPSHOT_LIMIT);
+    },
+    listSnapshots() {
+      return snapshots.map(toSnapshotInfo);
+    },
+    loadSnapshot(id) {
+      return snapshots.find(snapshot => snapshot.id === id) || null;
+    }
+  };
+}
+
+// Stores the cache as a JSON file inside dataDir
+export function createFileStorage(dataDir: string): CacheStorage {
+  const filePath = path.join(dataDir, CACHE_FILE_NAME);
+  const snapshotDir = path.join(dataDir, SNAPSHOT_DIR_NAME);
+  const snapshotPath = (id: string) => path.join(snapshotDir, `${id}.json`);
+  // Snapshot list kept separately so listing doesn't read every catalog
+  const indexPath = path.join(snapshotDir, 'index.json');
+
+  const readIndex = (): SnapshotInfo[] => {
+    try {
+      return fs.existsSync(indexPath) ? JSON.parse(fs.readFileSync(indexPath, 'utf8')) : [];
+    } catch (error) {
+      console.error(`❌ [CACHE-ERROR] Failed to read snapshot index ${indexPath}:`, error);
+      return [];
+    }
+  };
+
+  const readSnapshot = (id: string): CatalogSnapshot | null => {
+    // Ids come from request parameters, so never let them escape the directory
+    if (!/^[\w-]+$/.test(id)) return null;
+    try {
+      const raw = JSON.parse(fs.readFileSync(snapshotPath(id), 'utf8'));
+      return Array.isArray(raw.models) ? raw : null;
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    kind: 'file',
+    load() {
+      try {
+        if (!fs.existsSync(filePath)) return null;
+        const data = reviveCachedData(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+        if (data) {
+          console.log(`📂 [CACHE] Loaded ${data.models.length} models from ${filePath}`);
+        }
+        return data;
+      } catch (error) {
+        console.error(`❌ [CACHE-ERROR] Failed to load cache from ${filePath}:`, error);
+        return null;
+      }
+    },
+    save(data) {
+      try {
+        writeJsonAtomic(filePath, data);
+      } catch (error) {
+        console.error(`❌ [CACHE-ERROR] Failed to write cache to ${filePath}:`, error);
+      }
+    },
+    clear() {
+      fs.rmSync(filePath, { force: true });
+    },
+    saveSnapshot(snapshot) {
+      try {
+        writeJsonAtomic(snapshotPath(snapshot.id), snapshot);
+
+        // Drop the oldest snapshots beyond the limit
+        const index = [...readIndex().filter(info => info.id !== snapshot.id), toSnapshotInfo(snapshot)];
+        const expired = index.slice(0, Math.max(0, index.length - SNAPSHOT_LIMIT));
+        writeJsonAtomic(indexPath, index.slice(expired.length));
+        expired.forEach(info => fs.rmSync(snapshotPath(info.id), { force: true }));
+      } catch (error) {
+        console.error(`❌ [CACHE-ERROR] Failed to write snapshot ${snapshot.id}:`, error);
+      }
+    },
+    listSnapshots() {
+      return readIndex();
+    },
+    loadSnapshot(id) {
+      return readSnapshot(id);
+    }
+  };
+}
+
+// Pick the backend from CACHE_STORAGE ('memory' by default) and CACHE_DATA_DIR
+export function createCacheStorage(): CacheStorage {
+  const kind = (process.env.CACHE_STORAGE || 'memory').toLowerCase();
+
+  if (kind === 'file') {
+    const dataDir = path.resolve(process.env.CACHE_DATA_DIR || '.data');
+    return createFileStorage(dataDir);
+  }
+
+  if (kind !== 'memory') {
+    console.warn(`⚠️ [CACHE] Unknown CACHE_STORAGE "${kind}", falling back to memory`);
+  }
+  return createMemoryStorage();
+}
@@ -0,0 +1,90 @@
+import { ModelData, ModelVersion, SnapshotInfo } from './types';
+import { getTagName } from './tagInfo';
+import { getUpdatedAt } from './units';
+
+export interface FieldChange {
+  field: 'description' | 'updated' | 'size' | 'context';
+  // Set for per-tag changes
+  tag?: string;
+  before: string;
+  after: string;
+}
+
+export interface ModelChange {
+  name: string;
+  addedTags: string[];
+  removedTags: string[];
+  changes: FieldChange[];
+}
+
+export interface CatalogDiff {
+  addedModels: string[];
+  removedModels: string[];
+  changedModels: ModelChange[];
+}
+
+const byTag = (versions: ModelVersion[]) => new Map(versions.map(v => [getTagName(v), v]));
+
+// Compare two versions of the same model. `since` is when `before` was taken: the model
+// counts as updated when ollama.com reports an update after that time. (The "updated"
+// text itself is relative, e.g. "2 days ago", so it changes even when the model does not.)
+export function diffModel(before: ModelData, after: ModelData, since?: number): ModelChange | null {
+  const beforeTags = byTag(before.versions);
+  const afterTags = byTag(after.versions);
+  const changes: FieldChange[] = [];
+
+  if (before.description !== after.description) {
+    changes.push({ field: 'description', before: before.description, after: after.description });
+  }
+
+  if (since !== undefined && Date.parse(getUpdatedAt(after) || '') > since) {
+    changes.push({ field: 'updated', before: before.updated, after: after.updated });
+  }
+
+  afterTags.forEach((version, tag) => {
+    const previous = beforeTags.get(tag);
+    if (!previous) return;
+
+    if (previous.size !== version.size) {
+      changes.push({ field: 'size', tag, before: previous.size, after: version.size });
+    }
+    if (previous.context !== version.context) {
+      changes.push({ field: 'context', tag, before: previous.context, after: version.context });
+    }
+  });
+
+  const addedTags = Array.from(afterTags.keys()).filter(tag => !beforeTags.has(tag));
+  const removedTags = Array.from(beforeTags.keys()).filter(tag => !afterTags.has(tag));
+
+  if (addedTags.length === 0 && removedTags.length === 0 && changes.length === 0) return null;
+  return { name: after.name, addedTags, removedTags, changes };
+}
+
+// Report what changed between two catalogs; `since` is when `before` was taken
+export function diffCatalogs(before: ModelData[], after: ModelData[], since?: number): CatalogDiff {
+  const beforeModels = new Map(before.map(model => [model.name, model]));
+  const afterModels = new Map(after.map(model => [model.name, model]));
+  const changedModels: ModelChange[] = [];
+
+  afterModels.forEach((model, name) => {
+    const previous = beforeModels.get(name);
+    const change = previous && diffModel(previous, model, since);
+    if (change) changedModels.push(change);
+  });
+
+  return {
+    addedModels: Array.from(afterModels.keys()).filter(name => !beforeModels.has(name)),
+    removedModels: Array.from(beforeModels.keys()).filter(name => !afterModels.has(name)),
+    changedModels
+  };
+}
+
+export function isEmptyDiff(diff: CatalogDiff): boolean {
+  return diff.addedModels.length === 0 && diff.removedModels.length === 0 && diff.changedModels.length === 0;
+}
+
+// Body of GET /api/changes
+export interface ChangesResponse extends CatalogDiff {
+  from: SnapshotInfo | null;
+  to: SnapshotInfo | null;
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import type { NextApiRequest } from 'next';
+import { getShrinkRefusal, isForcedWrite } from './catalogGuard';
+import { dataCache } from './dataCache';
+import { ModelData } from './types';
+
+const request = (body: unknown, query: Record<string, string> = {}) => ({ body, query }) as unknown as NextApiRequest;
+
+describe('getShrinkRefusal', () => {
+  it('refuses to replace a large catalog with less than half of it', () => {
+    expect(getShrinkRefusal(100, 49, false)).toMatch(/Refusing to replace 100 cached models with 49/);
+  });
+
+  it('allows a moderate shrink, a small catalog and a forced write', () => {
+    expect(getShrinkRefusal(100, 50, false)).toBeNull();
+    expect(getShrinkRefusal(49, 1, false)).toBeNull();
+    expect(getShrinkRefusal(100, 1, true)).toBeNull();
+  });
+});
+
+describe('isForcedWrite', () => {
+  it('reads force from an object body or the query string', () => {
+    expect(isForcedWrite(request({ models: [], force: true }))).toBe(true);
+    expect(isForcedWrite(request([], { force: 'true' }))).toBe(true);
+    expect(isForcedWrite(request({ models: [], force: 'yes' }))).toBe(false);
+    expect(isForcedWrite(request([]))).toBe(false);
+  });
+});
+
+describe('dataCache.set', () => {
+  const models = (count: number): ModelData[] => Array.from({ length: count }, (_, i) => ({
+    name: `model-${i}`, url: '', description: '', capabilities: [], pulls: '', tags: '', updated: '', versions: []
+  }));
+
+  it('applies the shrink guard to every write', () => {
+    dataCache.set({ models: models(60) });
+
+    expect(dataCache.set({ models: models(1) })).toBe('Refusing to replace 60 cached models with 1');
+    expect(dataCache.get()!.models).toHaveLength(60);
+
+    expect(dataCache.set({ models: models(1) }, { force: true })).toBeNull();
+    expect(dataCache.get()!.models).toHaveLength(1);
+  });
+});
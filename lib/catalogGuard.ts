@@ -0,0 +1,28 @@
+import type { NextApiRequest } from 'next';
+
+// Guard for every write that replaces the whole catalog (applied by dataCache.set):
+// a large catalog is not replaced by one less than half its size, which usually means
+// a broken scrape or the wrong file, unless the write is explicitly forced.
+
+export const SHRINK_GUARD_MIN_MODELS = 50;
+export const SHRINK_GUARD_RATIO = 0.5;
+
+// `"force": true` in an object body, or ?force=true (for bodies that are a bare model array)
+export function isForcedWrite(req: NextApiRequest): boolean {
+  const query = req.query.force;
+  const body = req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : {};
+  return body.force === true || query === 'true' || query === '1';
+}
+
+// Message explaining why the write is refused, or null when it may go ahead
+export function getShrinkRefusal(currentCount: number, nextCount: number, force: boolean): string | null {
+  if (force || currentCount < SHRINK_GUARD_MIN_MODELS || nextCount >= currentCount * SHRINK_GUARD_RATIO) {
+    return null;
+  }
+  return `Refusing to replace ${currentCount} cached models with ${nextCount}`;
+}
+
+// Hint added to a refusal by the routes that accept force
+export function getForceHint(refusal: string): string {
+  return `${refusal}; send "force": true (or ?force=true) to replace them anyway`;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { validateCatalog, MAX_VALIDATION_ISSUES } from './catalogSchema';
+
+const version = (overrides: Record<string, unknown> = {}) => ({
+  name: 'llama3.2:1b',
+  size: '1.3GB',
+  context: '128K',
+  input: 'Text',
+  updated: '1 year ago',
+  url: 'https://ollama.com/library/llama3.2:1b',
+  ...overrides
+});
+
+const model = (overrides: Record<string, unknown> = {}) => ({
+  name: 'llama3.2',
+  url: 'https://ollama.com/library/llama3.2',
+  description: 'Small models',
+  capabilities: ['tools'],
+  pulls: '20.5M',
+  tags: '63',
+  updated: '1 year ago',
+  versions: [version()],
+  ...overrides
+});
+
+describe('validateCatalog', () => {
+  it('accepts a bare model array or an object with models', () => {
+    expect(validateCatalog([model()])).toMatchObject({ models: [model()], errors: [] });
+
+    const { models, lastUpdated, errors } = validateCatalog({ models: [model()], lastUpdated: '2025-06-01T00:00:00.000Z' });
+    expect(errors).toEqual([]);
+    expect(models).toHaveLength(1);
+    expect(lastUpdated?.toISOString()).toBe('2025-06-01T00:00:00.000Z');
+  });
+
+  it('drops unknown fields', () => {
+    const { models } = validateCatalog([model({ extra: 'x', versions: [version({ extra: 1 })] })]);
+    expect(models[0]).not.toHaveProperty('extra');
+    expect(models[0].versions[0]).not.toHaveProperty('extra');
+  });
+
+  it('reports each bad field with its path', () => {
+    const { errors } = validateCatalog([
+      model(),
+      model({
+        name: 'llava',
+        pulls: 9800000,
+        capabilities: ['vision', 1],
+        versions: [version(), version({ size: 4.7, sizeBytes: -1, isLatest: 'yes' })]
+      })
+    ]);
+
+    expect(errors).toEqual([
+      { path: 'models[1].pulls', message: 'expected string, got number' },
+      { path: 'models[1].capabilities', message: 'expected array of strings' },
+      { path: 'models[1].versions[1].size', message: 'expected string, got number' },
+      { path: 'models[1].versions[1].isLatest', message: 'expected boolean, got string' },
+      { path: 'models[1].versions[1].sizeBytes', message: 'expected non-negative number, got -1' }
+    ]);
+  });
+
+  it('only accepts ollama.com library URLs', () => {
+    const { errors } = validateCatalog([
+      model({ url: 'javascript:alert(1)', versions: [version({ url: 'https://evil.example/library/llama3.2' })] }),
+      model({ name: 'llava', url: 'https://ollama.com.evil.example/library/llava', versions: [version({ url: '' })] })
+    ]);
+
+    expect(errors.map(error => error.path)).toEqual([
+      'models[0].url',
+      'models[0].versions[0].url',
+      'models[1].url',
+      'models[1].versions[0].url'
+    ]);
+    expect(errors[0].message).toBe('expected a URL starting with https://ollama.com/library/');
+  });
+
+  it('reports duplicate model names', () => {
+    const { errors } = validateCatalog([model(), model({ name: 'llava' }), model()]);
+    expect(errors).toEqual([{ path: 'models[2].name', message: 'duplicate model "llama3.2"' }]);
+  });
+
+  it('reports input that is not a catalog', () => {
+    expect(validateCatalog('models').errors).toEqual([
+      { path: 'models', message: 'expected an array of models or an object with a "models" array' }
+    ]);
+    expect(validateCatalog([null]).errors).toEqual([{ path: 'models[0]', message: 'expected object, got null' }]);
+    expect(validateCatalog({ models: [], lastUpdated: 'yesterday' }).errors).toEqual([
+      { path: 'lastUpdated', message: 'expected an ISO date' }
+    ]);
+  });
+
+  it(`stops after ${MAX_VALIDATION_ISSUES} issues`, () => {
+    const rawModels = Array.from({ length: 500 }, (_, i) => model({ name: `model-${i}`, pulls: 1, tags: 2 }));
+    const { errors, models } = validateCatalog(rawModels);
+
+    expect(errors).toHaveLength(MAX_VALIDATION_ISSUES);
+    expect(errors[MAX_VALIDATION_ISSUES - 1].path).toBe(`models[${MAX_VALIDATION_ISSUES / 2 - 1}].tags`);
+    // Models after the cap are not checked
+    expect(models).toHaveLength(MAX_VALIDATION_ISSUES / 2);
+  });
+});
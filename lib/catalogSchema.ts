@@ -0,0 +1,159 @@
+import { ModelData, ModelVersion } from './types';
+
+// Strict validation of catalog JSON coming from outside (seed files, imports)
+
+export interface ValidationIssue {
+  // Location of the bad value, e.g. "models[3].versions[0].size"
+  path: string;
+  message: string;
+}
+
+export interface CatalogValidationResult {
+  models: ModelData[];
+  // Date the catalog was produced, when the file records it
+  lastUpdated?: Date;
+  errors: ValidationIssue[];
+}
+
+// Stop collecting after this many issues; a wrong file would otherwise report thousands
+export const MAX_VALIDATION_ISSUES = 100;
+
+const MODEL_STRING_FIELDS = ['name', 'url', 'description', 'pulls', 'tags', 'updated'] as const;
+const VERSION_STRING_FIELDS = ['name', 'size', 'context', 'input', 'updated', 'url'] as const;
+const MODEL_NUMBER_FIELDS = ['pullCount', 'tagCount'] as const;
+const VERSION_NUMBER_FIELDS = ['sizeBytes', 'contextTokens', 'parameterCount', 'activeParameterCount', 'expertCount', 'precisionBits'] as const;
+const VERSION_OPTIONAL_STRING_FIELDS = ['updatedAt', 'quantization', 'variant'] as const;
+
+// Links are rendered as href, so only ollama.com library pages are accepted
+export const LIBRARY_URL_PREFIX = 'https://ollama.com/library/';
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+class IssueCollector {
+  issues: ValidationIssue[] = [];
+
+  add(path: string, message: string) {
+    if (this.issues.length < MAX_VALIDATION_ISSUES) this.issues.push({ path, message });
+  }
+
+  get full() {
+    return this.issues.length >= MAX_VALIDATION_ISSUES;
+  }
+
+  // Check a required string field and copy it to target
+  requireString(source: Record<string, any>, key: string, path: string, target: Record<string, any>) {
+    if (typeof source[key] !== 'string') {
+      this.add(`${path}.${key}`, `expected string, got ${describe(source[key])}`);
+    } else {
+      target[key] = source[key];
+    }
+  }
+
+  // Check that a copied url field points to an ollama.com library page
+  requireLibraryUrl(target: Record<string, any>, path: string) {
+    if (typeof target.url === 'string' && !target.url.startsWith(LIBRARY_URL_PREFIX)) {
+      this.add(`${path}.url`, `expected a URL starting with ${LIBRARY_URL_PREFIX}`);
+    }
+  }
+
+  // Check an optional field of the given type and copy it to target when present
+  optional(source: Record<string, any>, key: string, type: 'string' | 'number' | 'boolean', path: string, target: Record<string, any>) {
+    const value = source[key];
+    if (value === undefined) return;
+    const valid = type === 'number' ? typeof value === 'number' && Number.isFinite(value) && value >= 0 : typeof value === type;
+    if (!valid) {
+      const actual = typeof value === 'number' ? String(value) : describe(value);
+      this.add(`${path}.${key}`, `expected ${type === 'number' ? 'non-negative number' : type}, got ${actual}`);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+function validateVersion(raw: unknown, path: string, issues: IssueCollector): ModelVersion | null {
+  if (!isRecord(raw)) {
+    issues.add(path, `expected object, got ${describe(raw)}`);
+    return null;
+  }
+
+  const version: Record<string, any> = {};
+  VERSION_STRING_FIELDS.forEach(key => issues.requireString(raw, key, path, version));
+  issues.optional(raw, 'isLatest', 'boolean', path, version);
+  VERSION_NUMBER_FIELDS.forEach(key => issues.optional(raw, key, 'number', path, version));
+  VERSION_OPTIONAL_STRING_FIELDS.forEach(key => issues.optional(raw, key, 'string', path, version));
+
+  if (version.name === '') issues.add(`${path}.name`, 'must not be empty');
+  issues.requireLibraryUrl(version, path);
+  return version as ModelVersion;
+}
+
+function validateModel(raw: unknown, path: string, issues: IssueCollector): ModelData | null {
+  if (!isRecord(raw)) {
+    issues.add(path, `expected object, got ${describe(raw)}`);
+    return null;
+  }
+
+  const model: Record<string, any> = {};
+  MODEL_STRING_FIELDS.forEach(key => issues.requireString(raw, key, path, model));
+  MODEL_NUMBER_FIELDS.forEach(key => issues.optional(raw, key, 'number', path, model));
+  issues.optional(raw, 'updatedAt', 'string', path, model);
+
+  if (model.name === '') issues.add(`${path}.name`, 'must not be empty');
+  issues.requireLibraryUrl(model, path);
+
+  if (!Array.isArray(raw.capabilities) || raw.capabilities.some((cap: unknown) => typeof cap !== 'string')) {
+    issues.add(`${path}.capabilities`, 'expected array of strings');
+  } else {
+    model.capabilities = raw.capabilities;
+  }
+
+  if (!Array.isArray(raw.versions)) {
+    issues.add(`${path}.versions`, `expected array, got ${describe(raw.versions)}`);
+  } else {
+    model.versions = raw.versions.map((version: unknown, index: number) =>
+      validateVersion(version, `${path}.versions[${index}]`, issues)
+    );
+  }
+
+  return model as ModelData;
+}
+
+// Accepts a bare ModelData[] (the JSON export) or any object with a `models`
+// array (a GET /api/models response, a cache file or a snapshot)
+export function validateCatalog(input: unknown): CatalogValidationResult {
+  const issues = new IssueCollector();
+  const rawModels = Array.isArray(input) ? input : isRecord(input) ? input.models : undefined;
+
+  if (!Array.isArray(rawModels)) {
+    issues.add('models', 'expected an array of models or an object with a "models" array');
+    return { models: [], errors: issues.issues };
+  }
+
+  let lastUpdated: Date | undefined;
+  if (isRecord(input) && input.lastUpdated !== undefined) {
+    lastUpdated = new Date(input.lastUpdated);
+    if (isNaN(lastUpdated.getTime())) {
+      issues.add('lastUpdated', 'expected an ISO date');
+      lastUpdated = undefined;
+    }
+  }
+
+  const models: ModelData[] = [];
+  const seen = new Set<string>();
+
+  for (let i = 0; i < rawModels.length && !issues.full; i++) {
+    const model = validateModel(rawModels[i], `models[${i}]`, issues);
+    if (!model) continue;
+
+    if (seen.has(model.name)) {
+      issues.add(`models[${i}].name`, `duplicate model "${model.name}"`);
+    }
+    seen.add(model.name);
+    models.push(model);
+  }
+
+  return { models, lastUpdated, errors: issues.issues };
+}
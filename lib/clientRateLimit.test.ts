@@ -0,0 +1,37 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { NextApiRequest } from 'next';
+import { getClientId, createClientRateLimiter } from './clientRateLimit';
+
+const request = (forwarded?: string | string[]) => ({
+  headers: forwarded ? { 'x-forwarded-for': forwarded } : {},
+  socket: { remoteAddress: '10.0.0.1' }
+}) as unknown as NextApiRequest;
+
+describe('getClientId', () => {
+  afterEach(() => {
+    delete process.env.TRUST_PROXY;
+  });
+
+  it('ignores X-Forwarded-For unless the proxy is trusted', () => {
+    expect(getClientId(request('1.2.3.4'))).toBe('10.0.0.1');
+  });
+
+  it('uses the entry appended by a trusted proxy', () => {
+    process.env.TRUST_PROXY = 'true';
+    expect(getClientId(request('6.6.6.6, 1.2.3.4'))).toBe('1.2.3.4');
+    expect(getClientId(request(['6.6.6.6', '1.2.3.4']))).toBe('1.2.3.4');
+  });
+
+  it('falls back to the connection address without the header', () => {
+    process.env.TRUST_PROXY = 'true';
+    expect(getClientId(request())).toBe('10.0.0.1');
+  });
+});
+
+describe('createClientRateLimiter', () => {
+  it('cannot be bypassed with a spoofed X-Forwarded-For header', () => {
+    const limiter = createClientRateLimiter(2, 60_000);
+    const results = ['1.1.1.1', '2.2.2.2', '3.3.3.3'].map(ip => limiter.check(getClientId(request(ip))).allowed);
+    expect(results).toEqual([true, true, false]);
+  });
+});
@@ -0,0 +1,58 @@
+import type { NextApiRequest } from 'next';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Time until the client may retry, when not allowed
+  retryAfterMs: number;
+}
+
+export interface ClientRateLimiter {
+  check(clientId: string, now?: number): RateLimitResult;
+}
+
+// Fixed window: at most `limit` requests per client per `windowMs`
+export function createClientRateLimiter(limit: number, windowMs: number): ClientRateLimiter {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    check(clientId, now = Date.now()) {
+      // Drop expired windows now and then so the map does not grow forever
+      if (windows.size > 10000) {
+        windows.forEach((window, id) => {
+          if (now - window.start >= windowMs) windows.delete(id);
+        });
+      }
+
+      let window = windows.get(clientId);
+      if (!window || now - window.start >= windowMs) {
+        window = { start: now, count: 0 };
+        windows.set(clientId, window);
+      }
+
+      if (window.count >= limit) {
+        return { allowed: false, retryAfterMs: window.start + windowMs - now };
+      }
+
+      window.count++;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+  };
+}
+
+// Set TRUST_PROXY=true only behind a reverse proxy that sets X-Forwarded-For;
+// otherwise clients could pick their own id by sending the header
+export function isProxyTrusted(): boolean {
+  return process.env.TRUST_PROXY === 'true';
+}
+
+// Client address. Behind a trusted proxy this is the last X-Forwarded-For entry, the one
+// the proxy appended; earlier entries come from the client and cannot be trusted.
+export function getClientId(req: NextApiRequest): string {
+  if (isProxyTrusted()) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const entries = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded || '').split(',');
+    const last = entries[entries.length - 1].trim();
+    if (last) return last;
+  }
+  return req.socket.remoteAddress || 'unknown';
+}
@@ -0,0 +1,82 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { scrapeOllamaModels, isModelUnchanged, HtmlFetcher } from './clientScraper';
+import { HttpError } from './retry';
+import { ModelData } from './types';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf-8');
+
+const SEARCH_HTML = fixture('search.html');
+const MODEL_HTML = fixture('model-llama3.2.html');
+
+// Serves the fixtures for every page, failing the model pages listed in `failing`
+function createFetcher(failing: Set<string> = new Set()) {
+  const requested: string[] = [];
+  const fetchHtml: HtmlFetcher = async (pagePath) => {
+    requested.push(pagePath);
+    if (pagePath === '/search') return SEARCH_HTML;
+    if (failing.has(pagePath)) throw new HttpError(404, 'Not Found');
+    return MODEL_HTML;
+  };
+  return { fetchHtml, requested };
+}
+
+const scrape = (fetchHtml: HtmlFetcher, previous?: ModelData[]) =>
+  scrapeOllamaModels(Infinity, undefined, { fetchHtml, previous, retry: { retries: 0 }, requestsPerSecond: 1000 });
+
+describe('scrapeOllamaModels', () => {
+  it('fetches the details of every listed model', async () => {
+    const { fetchHtml, requested } = createFetcher();
+    const { models, failures } = await scrape(fetchHtml);
+
+    expect(models).toHaveLength(3);
+    expect(models.every(model => model.versions.length === 3)).toBe(true);
+    expect(failures).toEqual([]);
+    expect(requested.sort()).toEqual(['/library/llama3.2', '/library/llava', '/library/nomic-embed-text', '/search']);
+  });
+
+  it('skips unchanged models in an incremental refresh', async () => {
+    const first = await scrape(createFetcher().fetchHtml);
+    const { fetchHtml, requested } = createFetcher();
+    await scrape(fetchHtml, first.models);
+
+    expect(requested).toEqual(['/search']);
+  });
+
+  it('keeps the previous versions and list data of a model that failed', async () => {
+    const first = await scrape(createFetcher().fetchHtml);
+    // llava was updated on ollama.com since the first run
+    const previous = first.models.map(model => model.name === 'llava'
+      ? { ...model, updated: '1 month ago', updatedAt: undefined, tags: '90', tagCount: 90 }
+      : model);
+
+    const { models, failures } = await scrape(createFetcher(new Set(['/library/llava'])).fetchHtml, previous);
+    const llava = models.find(model => model.name === 'llava')!;
+
+    expect(failures).toEqual([expect.objectContaining({ model: 'llava', status: 404, keptPrevious: true })]);
+    expect(llava.versions).toHaveLength(3);
+    expect(llava).toMatchObject({ updated: '1 month ago', tags: '90', pulls: '9.8M' });
+  });
+
+  it('retries a failed model in the next incremental refresh', async () => {
+    const first = await scrape(createFetcher().fetchHtml);
+    const previous = first.models.map(model => model.name === 'llava' ? { ...model, updated: '1 month ago', tags: '90' } : model);
+
+    const failed = await scrape(createFetcher(new Set(['/library/llava'])).fetchHtml, previous);
+    const { fetchHtml, requested } = createFetcher();
+    const { models } = await scrape(fetchHtml, failed.models);
+
+    expect(requested).toEqual(['/search', '/library/llava']);
+    expect(models.find(model => model.name === 'llava')).toMatchObject({ updated: '2 weeks ago', tags: '98' });
+  });
+
+  it('publishes a new model that failed without versions', async () => {
+    const { models, failures } = await scrape(createFetcher(new Set(['/library/llava'])).fetchHtml);
+    const llava = models.find(model => model.name === 'llava')!;
+
+    expect(failures).toEqual([expect.objectContaining({ model: 'llava', keptPrevious: false })]);
+    expect(llava.versions).toEqual([]);
+    expect(isModelUnchanged(llava, llava)).toBe(false);
+  });
+});
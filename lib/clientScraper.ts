@@ -1,248 +1,280 @@
-import { ModelData, ModelVersion } from './types';
+import { ModelData, ModelVersion, ScrapeFailure } from './types';
+import { ParsedPage, formatDriftWarning, parseModelList, parseModelVersions } from './ollamaParser';
+import {
+  RetryOptions,
+  RetryError,
+  HttpError,
+  DEFAULT_RETRY_OPTIONS,
+  createRateLimiter,
+  toHttpError,
+  withRetry
+} from './retry';
 
-// Rate limiting utility for client-side requests
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Fetches an ollama.com page (path such as "/search") and returns its HTML
+export type HtmlFetcher = (path: string, signal?: AbortSignal) => Promise<string>;
 
-async function fetchModelDetails(url: string): Promise<ModelVersion[]> {
-  try {
-    // Use our proxy API to avoid CORS issues
-    const proxyUrl = `/api/proxy?url=${encodeURIComponent(`https://ollama.com${url}`)}`;
-    const response = await fetch(proxyUrl);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-    
-    const html = await response.text();
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
-    const versions: ModelVersion[] = [];
-
-    // Process mobile view (sm:hidden elements)
-    const mobileElements = doc.querySelectorAll('a[href^="/library/"].sm\\:hidden');
-    mobileElements.forEach((element) => {
-      const href = element.getAttribute('href');
-      
-      // Skip if not a model version link
-      if (!href || !href.includes(':')) return;
+export type ScrapeProgress = (message: string, current?: number, total?: number) => void;
 
-      const nameEl = element.querySelector('p.font-medium');
-      const infoEl = element.querySelector('p.text-neutral-500');
-      const name = nameEl?.textContent?.trim() || '';
-      const infoText = infoEl?.textContent?.trim() || '';
-      
-      if (infoText) {
-        // Parse the info text: "5.2GB · 128K context window · Text · 1 month ago"
-        const parts = infoText.split('·').map(s => s.trim());
-        
-        if (parts.length >= 3) {
-          // Check if this version is marked as latest
-          const isLatest = element.querySelector('span.border-blue-500') !== null;
-          
-          versions.push({
-            name,
-            size: parts[0],
-            context: parts[1].replace('context window', '').trim(),
-            input: parts[2],
-            updated: parts[3] || '',
-            isLatest,
-            url: `https://ollama.com${href}`
-          });
-        }
-      }
-    });
+// Progress of an interrupted run, enough to continue where it stopped
+export interface ScrapeCheckpoint {
+  // Models from the list page in order; finished ones have their versions
+  models: ModelData[];
+  // Names of models whose details still need fetching
+  pending: string[];
+  failures: ScrapeFailure[];
+}
 
-    // Process desktop view (hidden sm:grid elements)
-    const desktopElements = doc.querySelectorAll('div.hidden.group');
-    desktopElements.forEach((element) => {
-      // Check if this is a grid row with model version data
-      if (!element.classList.contains('sm:grid') || !element.classList.contains('sm:grid-cols-12')) return;
-      
-      const link = element.querySelector('a[href^="/library/"]');
-      const href = link?.getAttribute('href');
-      
-      if (!href || !href.includes(':')) return;
-      
-      const name = link?.textContent?.trim() || '';
-      const cells = element.querySelectorAll('p.text-neutral-500');
-      
-      if (cells.length >= 3) {
-        // Check if this version is marked as latest
-        const isLatest = element.querySelector('span.border-blue-500') !== null;
-        
-        versions.push({
-          name,
-          size: cells[0]?.textContent?.trim() || '',
-          context: cells[1]?.textContent?.trim() || '',
-          input: cells[2]?.textContent?.trim() || '',
-          updated: '', // Updated time is not in the desktop grid, get from mobile view
-          isLatest,
-          url: `https://ollama.com${href}`
-        });
-      }
-    });
+// Thrown when the signal aborts a scrape; checkpoint is null if the model list was not read yet
+export class ScrapeAbortedError extends Error {
+  constructor(public checkpoint: ScrapeCheckpoint | null) {
+    super('Scrape aborted');
+    this.name = 'ScrapeAbortedError';
+  }
+}
 
-    // If we have both mobile and desktop versions, merge them (prefer mobile for updated time)
-    const mergedVersions: { [key: string]: ModelVersion } = {};
-    
-    versions.forEach(version => {
-      if (mergedVersions[version.name]) {
-        // Merge data, preferring non-empty values
-        mergedVersions[version.name] = {
-          ...mergedVersions[version.name],
-          ...version,
-          updated: version.updated || mergedVersions[version.name].updated
-        };
-      } else {
-        mergedVersions[version.name] = version;
-      }
-    });
+export interface ScrapeOptions {
+  fetchHtml?: HtmlFetcher;
+  // Cached catalog: unchanged models reuse its versions, failed models fall back to it
+  previous?: ModelData[];
+  // Refetch every model even if it is unchanged in `previous`
+  full?: boolean;
+  retry?: Partial<RetryOptions>;
+  // Global limit on requests started per second
+  requestsPerSecond?: number;
+  // Detail pages fetched in parallel
+  concurrency?: number;
+  // Aborts in-flight requests; the scrape then throws ScrapeAbortedError
+  signal?: AbortSignal;
+  // Continue a run interrupted with ScrapeAbortedError
+  resumeFrom?: ScrapeCheckpoint;
+}
+
+export interface ScrapeResult {
+  models: ModelData[];
+  failures: ScrapeFailure[];
+}
 
-    return Object.values(mergedVersions);
-  } catch (error) {
-    console.error(`Error fetching model details from ${url}:`, error);
-    return [];
+const DEFAULT_REQUESTS_PER_SECOND = 5;
+const DEFAULT_CONCURRENCY = 4;
+
+// Default fetcher for the browser: go through our proxy API to avoid CORS issues
+export const fetchViaProxy: HtmlFetcher = async (path, signal) => {
+  const proxyUrl = `/api/proxy?url=${encodeURIComponent(`https://ollama.com${path}`)}`;
+  const response = await fetch(proxyUrl, { signal });
+
+  if (!response.ok) {
+    throw toHttpError(response);
   }
+
+  return response.text();
+};
+
+// Fetcher for Node (the server and the CLI): talk to ollama.com directly, no proxy needed
+export const fetchFromOllama: HtmlFetcher = async (path, signal) => {
+  const response = await fetch(`https://ollama.com${path}`, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; OllamaExplorer/1.0)',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      'Accept-Language': 'en-US,en;q=0.5'
+    },
+    signal
+  });
+
+  if (!response.ok) {
+    throw toHttpError(response);
+  }
+
+  return response.text();
+};
+
+// Catalog to publish from an interrupted run: finished models as fetched,
+// pending ones as they were in the previous catalog (new pending models are left out)
+export function getCheckpointModels(checkpoint: ScrapeCheckpoint, previous: ModelData[]): ModelData[] {
+  const pending = new Set(checkpoint.pending);
+  const previousByName = new Map(previous.map(model => [model.name, model]));
+
+  return checkpoint.models
+    .map(model => pending.has(model.name) ? previousByName.get(model.name) : model)
+    .filter((model): model is ModelData => model !== undefined);
+}
+
+// A model is unchanged when its list-page "updated" and tag count match the cache.
+// Cached models without versions (a failed detail fetch) are always refetched.
+export function isModelUnchanged(model: ModelData, cached: ModelData | undefined): boolean {
+  return !!cached &&
+    cached.versions.length > 0 &&
+    cached.updated === model.updated &&
+    cached.tags === model.tags;
+}
+
+// Fetch a model page and parse its versions; fetch errors propagate so the caller can retry
+async function fetchModelDetails(url: string, fetchHtml: HtmlFetcher): Promise<ParsedPage<ModelVersion[]>> {
+  const html = await fetchHtml(url);
+  return parseModelVersions(html, new Date());
+}
+
+// Fetch the search page and read the models listed on it (without versions)
+async function fetchModelList(
+  fetchHtml: HtmlFetcher,
+  limit: number,
+  onProgress?: ScrapeProgress
+): Promise<ModelData[]> {
+  // Fetch the main search page
+  onProgress?.('🌐 Fetching main page from ollama.com');
+  const html = await fetchHtml('/search');
+  onProgress?.('✅ Retrieved model list page');
+  
+  const { data, warnings } = parseModelList(html, new Date());
+  warnings.forEach(warning => onProgress?.(`⚠️ Markup drift: ${formatDriftWarning(warning)}`));
+  
+  const models = data.slice(0, limit);
+  onProgress?.(`📋 Found ${data.length} models, processing ${models.length}`);
+  return models;
 }
 
 export async function scrapeOllamaModels(
   limit: number = Infinity,
-  onProgress?: (message: string, current?: number, total?: number) => void
-): Promise<ModelData[]> {
-  try {
-    onProgress?.('🚀 Starting scrape from Ollama.com');
-    
-    // Fetch the main search page via our proxy
-    onProgress?.('🌐 Fetching main page from ollama.com');
-    const proxyUrl = `/api/proxy?url=${encodeURIComponent('https://ollama.com/search')}`;
-    const response = await fetch(proxyUrl);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-    
-    const html = await response.text();
-    onProgress?.('✅ Retrieved model list page');
-    
-    // Parse HTML using DOMParser
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, 'text/html');
-    
-    // Find all model elements
-    const modelElements = doc.querySelectorAll('li[x-test-model]');
-    const totalModelsFound = modelElements.length;
-    const processLimit = Math.min(limit, totalModelsFound);
-    
-    onProgress?.(`📋 Found ${totalModelsFound} models, processing ${processLimit}`);
-    
-    const models: ModelData[] = [];
-    let processedCount = 0;
+  onProgress?: ScrapeProgress,
+  options: ScrapeOptions = {}
+): Promise<ScrapeResult> {
+  const retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+  const limiter = createRateLimiter(options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND);
+  const { signal, resumeFrom } = options;
 
-    // Process each model
-    for (let i = 0; i < Math.min(modelElements.length, limit); i++) {
-      const element = modelElements[i];
-      processedCount++;
+  // Every request waits for the shared rate limit and is retried on transient errors
+  const fetchHtml = (path: string) => withRetry(
+    async () => {
+      await limiter.acquire();
+      signal?.throwIfAborted();
+      return (options.fetchHtml || fetchViaProxy)(path, signal);
+    },
+    retryOptions,
+    (error, attempt, delayMs) => {
+      onProgress?.(`🔁 Retrying ${path} in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt} failed: ${error.message})`);
+    },
+    signal
+  );
 
-      // Extract model name
-      const nameEl = element.querySelector('[x-test-search-response-title]');
-      const name = nameEl?.textContent?.trim() || '';
-      
-      if (processedCount % 5 === 0 || processedCount <= 3) {
-        onProgress?.(`🔍 Processing model: ${name}`, processedCount, processLimit);
-      }
-      
-      // Extract URL
-      const linkEl = element.querySelector('a');
-      const url = linkEl?.getAttribute('href') || '';
-      
-      // Extract description
-      const descEl = element.querySelector('p:not([class*="space-x-5"])');
-      const description = descEl?.textContent?.trim() || '';
+  try {
+    const cachedByName = new Map((options.previous || []).map(model => [model.name, model]));
+    const failures: ScrapeFailure[] = [...(resumeFrom?.failures || [])];
+    let models: ModelData[];
+    let modelsToFetch: ModelData[];
+    
+    if (resumeFrom) {
+      // Continue a paused run from its checkpoint, skipping the list page
+      const pending = new Set(resumeFrom.pending);
+      models = [...resumeFrom.models];
+      modelsToFetch = models.filter(model => pending.has(model.name));
+      onProgress?.(`▶️ Resuming refresh: ${modelsToFetch.length} of ${models.length} models left`);
+    } else {
+      onProgress?.('🚀 Starting scrape from Ollama.com');
+      models = await fetchModelList(fetchHtml, limit, onProgress);
+      modelsToFetch = [];
       
-      // Extract capabilities
-      const capabilities: string[] = [];
-      const capElements = element.querySelectorAll('[x-test-capability]');
-      capElements.forEach(cap => {
-        const text = cap.textContent?.trim();
-        if (text) capabilities.push(text);
+      // Incremental mode: reuse cached versions for models that did not change
+      models.forEach((model, index) => {
+        const cached = cachedByName.get(model.name);
+        if (!options.full && isModelUnchanged(model, cached)) {
+          models[index] = { ...model, versions: cached!.versions };
+        } else {
+          modelsToFetch.push(model);
+        }
       });
       
-      // Extract pulls count
-      const pullsEl = element.querySelector('[x-test-pull-count]');
-      const pulls = pullsEl?.textContent?.trim() || '';
-      
-      // Extract tags count  
-      const tagsEl = element.querySelector('[x-test-tag-count]');
-      const tags = tagsEl?.textContent?.trim() || '';
-      
-      // Extract last updated time
-      const updatedEl = element.querySelector('[x-test-updated]');
-      const updated = updatedEl?.textContent?.trim() || '';
-      
-      // Add model data to array
-      models.push({
-        name,
-        url: `https://ollama.com${url}`,
-        description,
-        capabilities,
-        pulls,
-        tags,
-        updated,
-        versions: []
-      });
+      if (options.previous && !options.full) {
+        onProgress?.(`⏭️ Skipping ${models.length - modelsToFetch.length} unchanged models`);
+      }
     }
+    onProgress?.(`🔄 Fetching detailed info for ${modelsToFetch.length} models`);
     
-    onProgress?.(`🔄 Fetching detailed info for ${models.length} models`);
-    
-    // Fetch model details with higher concurrency for client-side scraping
-    const concurrencyLimit = 8; // Increased from 2 to 8 for faster scraping
     let completedDetails = 0;
+    const fetchedModels = new Map<string, ModelData>();
+    // Drift warnings from model pages, counted so each is logged once
+    const driftCounts = new Map<string, number>();
     
-    for (let i = 0; i < models.length; i += concurrencyLimit) {
-      const batch = models.slice(i, i + concurrencyLimit);
-      
-      const batchPromises = batch.map(async (model) => {
-        try {
-          const versions = await fetchModelDetails(model.url.replace('https://ollama.com', ''));
-          completedDetails++;
-          
-          if (completedDetails % 3 === 0 || completedDetails <= 2) {
-            onProgress?.(`✨ Got details for ${model.name} (${completedDetails}/${models.length})`, completedDetails, models.length);
-          }
-          
-          return {
-            ...model,
-            versions
-          };
-        } catch (error: any) {
-          onProgress?.(`⚠️ Failed to get details for ${model.name}: ${error.message}`);
-          completedDetails++;
-          // Return model without versions if detail fetch fails
-          return {
-            ...model,
-            versions: []
-          };
+    const fetchDetails = async (model: ModelData) => {
+      try {
+        const { data: versions, warnings } = await fetchModelDetails(model.url.replace('https://ollama.com', ''), fetchHtml);
+        warnings.forEach(warning => {
+          const message = formatDriftWarning(warning);
+          driftCounts.set(message, (driftCounts.get(message) || 0) + 1);
+        });
+        fetchedModels.set(model.name, { ...model, versions });
+        completedDetails++;
+        
+        if (completedDetails % 3 === 0 || completedDetails <= 2) {
+          onProgress?.(`✨ Got details for ${model.name} (${completedDetails}/${modelsToFetch.length})`, completedDetails, modelsToFetch.length);
         }
-      });
-      
-      const batchResults = await Promise.all(batchPromises);
-      
-      // Update the original models array with results
-      for (let j = 0; j < batchResults.length; j++) {
-        models[i + j] = batchResults[j];
+      } catch (error: any) {
+        // Aborted requests stay pending for the checkpoint
+        if (signal?.aborted) return;
+        
+        // Keep the previous versions rather than publishing a model without any
+        const cached = cachedByName.get(model.name);
+        const previousVersions = cached?.versions || [];
+        const lastError = error instanceof RetryError ? error.lastError : error;
+        const failure: ScrapeFailure = {
+          model: model.name,
+          url: model.url,
+          error: lastError.message,
+          status: lastError instanceof HttpError ? lastError.status : undefined,
+          attempts: error instanceof RetryError ? error.attempts : 1,
+          keptPrevious: previousVersions.length > 0
+        };
+        failures.push(failure);
+        // The cached "updated" and tag count go with the cached versions, so the next
+        // incremental refresh still sees the model as changed and retries it
+        fetchedModels.set(model.name, cached
+          ? { ...model, updated: cached.updated, updatedAt: cached.updatedAt, tags: cached.tags, tagCount: cached.tagCount, versions: previousVersions }
+          : { ...model, versions: [] });
+        completedDetails++;
+        
+        onProgress?.(
+          `⚠️ Failed to get details for ${model.name} after ${failure.attempts} attempt(s): ${failure.error}${failure.keptPrevious ? ' (kept previous versions)' : ''}`,
+          completedDetails,
+          modelsToFetch.length
+        );
       }
-      
-      // Shorter delay between batches for faster processing
-      if (i + concurrencyLimit < models.length) {
-        await delay(200); // Reduced from 1000ms to 200ms
+    };
+    
+    // A small pool of workers; the rate limiter paces the actual requests
+    const queue = [...modelsToFetch];
+    const workerCount = Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, queue.length);
+    await Promise.all(Array.from({ length: workerCount }, async () => {
+      for (let model = queue.shift(); model && !signal?.aborted; model = queue.shift()) {
+        await fetchDetails(model);
       }
+    }));
+    
+    // Put the fetched models back in list order
+    const result = models.map(model => fetchedModels.get(model.name) || model);
+    
+    if (signal?.aborted) {
+      throw new ScrapeAbortedError({
+        models: result,
+        pending: modelsToFetch.filter(model => !fetchedModels.has(model.name)).map(model => model.name),
+        failures
+      });
     }
     
-    onProgress?.(`🎉 Scraping completed! Found ${models.length} models`);
-    return models;
+    driftCounts.forEach((count, message) => {
+      onProgress?.(`⚠️ Markup drift: ${message} (${count} of ${fetchedModels.size} model pages)`);
+    });
+    if (failures.length > 0) {
+      onProgress?.(`⚠️ ${failures.length} model(s) failed: ${failures.map(failure => failure.model).join(', ')}`);
+    }
+    onProgress?.(`🎉 Scraping completed! Found ${result.length} models`);
+    return { models: result, failures };
     
   } catch (error: any) {
-    onProgress?.(`❌ Scraping failed: ${error.message}`);
+    // Aborted before the model list was read: nothing to checkpoint
+    if (signal?.aborted && !(error instanceof ScrapeAbortedError)) {
+      throw new ScrapeAbortedError(null);
+    }
+    if (!(error instanceof ScrapeAbortedError)) {
+      onProgress?.(`❌ Scraping failed: ${error.message}`);
+    }
     throw error;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,80 @@
+import { ModelData, ModelVersion } from './types';
+import { getTagName } from './tagInfo';
+import {
+  getModelSizes,
+  getParameterSizes,
+  getMaxContext,
+  getInputModalities
+} from './modelSummary';
+
+// A compared item: a whole model, or one tag of it ("llama3.1:8b")
+export interface CompareItem {
+  ref: string;
+  model: ModelData;
+  version?: ModelVersion;
+}
+
+export interface ComparisonRow {
+  label: string;
+  values: string[];
+  // True when not every item has the same value
+  differs: boolean;
+}
+
+// Items are stored in the URL as ?models=qwen2.5,llama3.1:8b
+export function parseCompareParam(param: string | string[] | undefined): string[] {
+  const raw = Array.isArray(param) ? param.join(',') : param || '';
+  return Array.from(new Set(raw.split(',').map(ref => ref.trim()).filter(Boolean)));
+}
+
+export function buildCompareUrl(refs: string[]): string {
+  return `/compare?models=${refs.map(encodeURIComponent).join(',')}`;
+}
+
+// Resolve references against the catalog; unknown refs are returned separately
+export function resolveCompareItems(models: ModelData[], refs: string[]): { items: CompareItem[]; missing: string[] } {
+  const items: CompareItem[] = [];
+  const missing: string[] = [];
+
+  refs.forEach(ref => {
+    const separator = ref.indexOf(':');
+    const modelName = separator === -1 ? ref : ref.slice(0, separator);
+    const tag = separator === -1 ? null : ref.slice(separator + 1);
+    const model = models.find(m => m.name === modelName);
+    const version = model && tag ? model.versions.find(v => getTagName(v) === tag) : undefined;
+
+    if (!model || (tag && !version)) {
+      missing.push(ref);
+    } else {
+      items.push({ ref, model, version });
+    }
+  });
+
+  return { items, missing };
+}
+
+// Attribute rows for the comparison table, one value per item
+export function getComparisonRows(items: CompareItem[]): ComparisonRow[] {
+  const versionsOf = (item: CompareItem) => item.version ? [item.version] : item.model.versions;
+  const list = (values: string[]) => values.length > 0 ? values.join(', ') : 'N/A';
+
+  const rows: { label: string; value: (item: CompareItem) => string }[] = [
+    { label: 'Capabilities', value: item => list(item.model.capabilities.map(cap => cap.toLowerCase()).sort()) },
+    { label: 'Parameter sizes', value: item => list(getParameterSizes(versionsOf(item))) },
+    { label: 'Size range', value: item => getModelSizes(versionsOf(item)) },
+    { label: 'Max context', value: item => getMaxContext(versionsOf(item)) },
+    { label: 'Input modalities', value: item => list(getInputModalities(versionsOf(item))) },
+    { label: 'Pulls', value: item => item.model.pulls || 'N/A' },
+    { label: 'Tags', value: item => item.model.tags || String(item.model.versions.length) },
+    { label: 'Last update', value: item => (item.version?.updated || item.model.updated) || 'N/A' }
+  ];
+
+  return rows.map(row => {
+    const values = items.map(row.value);
+    return {
+      label: row.label,
+      values,
+      differs: values.some(value => value !== values[0])
+    };
+  });
+}
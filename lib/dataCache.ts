@@ -1,7 +1,14 @@
-import { ModelData, CachedData, ScrapingLog } from './types';
+import { ModelData, CachedData, ScrapingLog, ScrapeFailure, CacheStorageKind, CatalogSnapshot, CatalogSource, SnapshotInfo } from './types';
+import { createCacheStorage, createSnapshotId } from './cacheStorage';
+import { loadSeedData } from './seedData';
+import { refreshEvents } from './refreshEvents';
+import { getShrinkRefusal } from './catalogGuard';
 
-// In-memory cache
-let cachedModels: CachedData | null = null;
+// Storage backend (memory or JSON file), loaded once on boot
+const storage = createCacheStorage();
+
+// Working copy of the cache, seeded from the static dataset when nothing is stored
+let cachedModels: CachedData | null = storage.load() || loadSeedData();
 
 export const dataCache = {
   // Get cached data
@@ -9,14 +16,43 @@ export const dataCache = {
     return cachedModels;
   },
 
-  // Set new data in cache
-  set(data: { models: ModelData[]; limit?: number; status?: 'ready' | 'pending'; logs?: ScrapingLog[]; progress?: any }): void {
+  // Replace the cached catalog. Every write goes through the shrink guard: the message
+  // explaining a refusal is returned (and nothing stored), or null once the data is stored.
+  set(
+    data: { models: ModelData[]; limit?: number; source?: CatalogSource; status?: 'ready' | 'pending'; logs?: ScrapingLog[]; failures?: ScrapeFailure[]; progress?: any },
+    options: { force?: boolean } = {}
+  ): string | null {
+    const refusal = getShrinkRefusal(cachedModels?.models.length || 0, data.models.length, !!options.force);
+    if (refusal) return refusal;
+
     cachedModels = {
       ...data,
       lastUpdated: new Date(),
+      source: data.source || 'scrape',
       status: data.status || 'ready',
       logs: data.logs || []
     };
+    storage.save(cachedModels);
+
+    // Keep every successful refresh in the snapshot history
+    if (cachedModels.status === 'ready' && cachedModels.models.length > 0) {
+      storage.saveSnapshot({
+        id: createSnapshotId(cachedModels.lastUpdated),
+        createdAt: cachedModels.lastUpdated.toISOString(),
+        models: cachedModels.models
+      });
+    }
+    return null;
+  },
+
+  // List stored snapshots, oldest first
+  getSnapshots(): SnapshotInfo[] {
+    return storage.listSnapshots();
+  },
+
+  // Load one snapshot by id
+  getSnapshot(id: string): CatalogSnapshot | null {
+    return storage.loadSnapshot(id);
   },
 
   // Set pending status
@@ -34,6 +70,14 @@ export const dataCache = {
     }
   },
 
+  // Return to ready without replacing the models (e.g. after a failed scrape)
+  setReady(): void {
+    if (cachedModels) {
+      cachedModels.status = 'ready';
+      cachedModels.progress = undefined;
+    }
+  },
+
   // Add log entry
   addLog(message: string, type: 'info' | 'success' | 'warning' | 'error' = 'info'): void {
     const log: ScrapingLog = {
@@ -45,6 +89,7 @@ export const dataCache = {
     if (cachedModels) {
       cachedModels.logs = [...(cachedModels.logs || []), log].slice(-20); // Keep last 20 logs
     }
+    refreshEvents.emit({ type: 'log', log });
   },
 
   // Update progress
@@ -52,11 +97,18 @@ export const dataCache = {
     if (cachedModels) {
       cachedModels.progress = { current, total, currentTask };
     }
+    refreshEvents.emit({ type: 'progress', progress: { current, total, currentTask } });
   },
 
   // Clear cache
   clear(): void {
     cachedModels = null;
+    storage.clear();
+  },
+
+  // Name of the active storage backend
+  getStorageKind(): CacheStorageKind {
+    return storage.kind;
   },
 
   // Check if cache exists and is not empty
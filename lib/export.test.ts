@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { exportModels } from './export';
+import { ModelData } from './types';
+
+const model = (overrides: Partial<ModelData>): ModelData => ({
+  name: 'llama3.2',
+  url: 'https://ollama.com/library/llama3.2',
+  description: 'Meta\'s small models',
+  capabilities: ['tools'],
+  pulls: '20.5M',
+  tags: '63',
+  updated: '1 year ago',
+  versions: [],
+  ...overrides
+});
+
+// Data rows of a CSV export, split into fields (no field in these tests contains a comma)
+const csvRows = (models: ModelData[]) =>
+  exportModels(models, 'csv').trim().split('\r\n').slice(1).map(line => line.split(','));
+
+describe('CSV export', () => {
+  it('prefixes cells that a spreadsheet would run as a formula', () => {
+    const rows = csvRows([
+      model({ name: 'a', description: '=HYPERLINK("http://evil.example")' }),
+      model({ name: 'b', description: '+1' }),
+      model({ name: 'c', description: '-2+3' }),
+      model({ name: 'd', description: '@SUM(A1)' })
+    ]);
+
+    expect(rows.map(row => row[1])).toEqual([
+      '"\'=HYPERLINK(""http://evil.example"")"',
+      '\'+1',
+      '\'-2+3',
+      '\'@SUM(A1)'
+    ]);
+  });
+
+  it('leaves other cells unchanged', () => {
+    const [row] = csvRows([model({ description: 'A 3B model - fast' })]);
+    expect(row.slice(0, 6)).toEqual(['llama3.2', 'A 3B model - fast', 'tools', '20.5M', '63', '1 year ago']);
+  });
+
+  it('quotes cells with separators, quotes or line breaks', () => {
+    const csv = exportModels([model({ description: 'Small, "fast"\nmodels' })], 'csv');
+    expect(csv).toContain('"Small, ""fast""\nmodels"');
+  });
+});
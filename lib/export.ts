@@ -0,0 +1,116 @@
+import { ModelData } from './types';
+import { getTagName, getTagInfo, formatParameterCount } from './tagInfo';
+import { getModelSizes, getMaxContext } from './modelSummary';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'markdown'];
+
+export interface ExportOptions {
+  // One row per model version (tag) instead of one row per model
+  perVersion?: boolean;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8'
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  markdown: 'md'
+};
+
+type ExportRow = Record<string, string | number | boolean>;
+
+const MODEL_COLUMNS = ['name', 'description', 'capabilities', 'pulls', 'tags', 'updated', 'versions', 'size', 'context', 'url'];
+const VERSION_COLUMNS = ['model', 'tag', 'size', 'context', 'input', 'updated', 'latest', 'parameters', 'quantization', 'url'];
+
+function getModelRows(models: ModelData[]): ExportRow[] {
+  return models.map(model => ({
+    name: model.name,
+    description: model.description,
+    capabilities: model.capabilities.join(', '),
+    pulls: model.pulls,
+    tags: model.tags,
+    updated: model.updated,
+    versions: model.versions.length,
+    size: getModelSizes(model.versions),
+    context: getMaxContext(model.versions),
+    url: model.url
+  }));
+}
+
+function getVersionRows(models: ModelData[]): ExportRow[] {
+  return models.flatMap(model => model.versions.map(version => {
+    const info = getTagInfo(version);
+    return {
+      model: model.name,
+      tag: getTagName(version),
+      size: version.size,
+      context: version.context,
+      input: version.input,
+      updated: version.updated,
+      latest: !!version.isLatest,
+      parameters: info.parameterCount !== undefined ? formatParameterCount(info.parameterCount) : '',
+      quantization: info.quantization || '',
+      url: version.url
+    };
+  }));
+}
+
+// Quote CSV fields containing separators, quotes or line breaks. Fields that a spreadsheet
+// would run as a formula (scraped descriptions are untrusted) get a leading apostrophe.
+function escapeCsv(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Markdown table cells cannot contain pipes or line breaks
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function toCsv(rows: ExportRow[], columns: string[]): string {
+  const lines = [columns.join(',')];
+  rows.forEach(row => lines.push(columns.map(column => escapeCsv(String(row[column]))).join(',')));
+  return lines.join('\r\n') + '\r\n';
+}
+
+function toMarkdown(rows: ExportRow[], columns: string[]): string {
+  const lines = [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`
+  ];
+  rows.forEach(row => lines.push(`| ${columns.map(column => escapeMarkdown(String(row[column]))).join(' | ')} |`));
+  return lines.join('\n') + '\n';
+}
+
+// Serialize models in the given format; JSON keeps the full model data
+export function exportModels(models: ModelData[], format: ExportFormat, options: ExportOptions = {}): string {
+  if (format === 'json') {
+    const data = options.perVersion
+      ? models.flatMap(model => model.versions.map(version => ({ model: model.name, ...version })))
+      : models;
+    return JSON.stringify(data, null, 2);
+  }
+
+  const rows = options.perVersion ? getVersionRows(models) : getModelRows(models);
+  const columns = options.perVersion ? VERSION_COLUMNS : MODEL_COLUMNS;
+
+  return format === 'csv' ? toCsv(rows, columns) : toMarkdown(rows, columns);
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && (EXPORT_FORMATS as string[]).includes(value);
+}
+
+export function getExportContentType(format: ExportFormat): string {
+  return CONTENT_TYPES[format];
+}
+
+export function getExportFilename(format: ExportFormat, options: ExportOptions = {}): string {
+  return `ollama-${options.perVersion ? 'versions' : 'models'}.${EXTENSIONS[format]}`;
+}
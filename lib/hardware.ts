@@ -0,0 +1,110 @@
+import { ModelData, ModelVersion } from './types';
+import { getSizeBytes, getContextTokens } from './units';
+
+export interface HardwareProfile {
+  enabled: boolean;
+  ramGB: number;
+  vramGB: number;
+  // Desired context window in tokens (0 = no requirement)
+  contextTokens: number;
+  // Extra memory on top of the weights for runtime buffers, in percent
+  overheadPercent: number;
+}
+
+// fits: runs entirely in VRAM (or RAM without a GPU)
+// partial: needs to split between VRAM and RAM
+// none: too large, or cannot provide the desired context
+export type FitLevel = 'fits' | 'partial' | 'none';
+
+export interface ModelFit {
+  level: FitLevel;
+  // Largest version that fits entirely, if any
+  largestFit?: ModelVersion;
+  largestFitBytes: number;
+}
+
+// Table filter: every model, only models that fit, or models that fit at least partially
+export type FitFilter = 'all' | 'fits' | 'runs';
+
+export const DEFAULT_HARDWARE_PROFILE: HardwareProfile = {
+  enabled: false,
+  ramGB: 16,
+  vramGB: 8,
+  contextTokens: 8192,
+  overheadPercent: 20
+};
+
+const HARDWARE_PROFILE_KEY = 'hardwareProfile';
+
+// Rough KV cache cost: bytes per token per byte of weights
+const KV_CACHE_RATIO = 2e-5;
+
+const GB = 1e9;
+
+// Estimated memory needed to run a version with the profile's context
+export function getRequiredBytes(version: ModelVersion, profile: HardwareProfile): number | undefined {
+  const size = getSizeBytes(version);
+  if (size === undefined) return undefined;
+
+  const kvCache = size * profile.contextTokens * KV_CACHE_RATIO;
+  return size * (1 + profile.overheadPercent / 100) + kvCache;
+}
+
+export function getVersionFit(version: ModelVersion, profile: HardwareProfile): FitLevel {
+  const required = getRequiredBytes(version, profile);
+  if (required === undefined) return 'none';
+
+  // The version must support the desired context window
+  const context = getContextTokens(version);
+  if (profile.contextTokens > 0 && context !== undefined && context < profile.contextTokens) return 'none';
+
+  const vram = profile.vramGB * GB;
+  const ram = profile.ramGB * GB;
+
+  if (vram > 0) {
+    if (required <= vram) return 'fits';
+    return required <= vram + ram ? 'partial' : 'none';
+  }
+  return required <= ram ? 'fits' : 'none';
+}
+
+export function getModelFit(model: ModelData, profile: HardwareProfile): ModelFit {
+  let level: FitLevel = 'none';
+  let largestFit: ModelVersion | undefined;
+  let largestFitBytes = 0;
+
+  model.versions.forEach(version => {
+    const fit = getVersionFit(version, profile);
+
+    if (fit === 'fits') {
+      level = 'fits';
+      const size = getSizeBytes(version) || 0;
+      if (!largestFit || size > largestFitBytes) {
+        largestFit = version;
+        largestFitBytes = size;
+      }
+    } else if (fit === 'partial' && level === 'none') {
+      level = 'partial';
+    }
+  });
+
+  return { level, largestFit, largestFitBytes };
+}
+
+// Profile persistence in the browser
+export function loadHardwareProfile(): HardwareProfile {
+  try {
+    const stored = localStorage.getItem(HARDWARE_PROFILE_KEY);
+    return stored ? { ...DEFAULT_HARDWARE_PROFILE, ...JSON.parse(stored) } : DEFAULT_HARDWARE_PROFILE;
+  } catch {
+    return DEFAULT_HARDWARE_PROFILE;
+  }
+}
+
+export function saveHardwareProfile(profile: HardwareProfile): void {
+  try {
+    localStorage.setItem(HARDWARE_PROFILE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.error('Failed to save hardware profile:', error);
+  }
+}
@@ -0,0 +1,62 @@
+import { LocalModel, ModelData, ModelVersion } from './types';
+import { getTagName } from './tagInfo';
+import { getUpdatedAt } from './units';
+
+// Matching of the models pulled on a local Ollama server against the catalog
+
+// Table filter on local installation
+export type InstallFilter = 'all' | 'installed' | 'not-installed';
+
+export interface LocalModelStatus {
+  // Installed tags, e.g. ["latest", "8b"]
+  tags: string[];
+  diskBytes: number;
+  // Installed tags that were updated on ollama.com after they were pulled
+  outdatedTags: string[];
+}
+
+// "registry.ollama.ai/library/llama3:8b" -> { model: "llama3", tag: "8b" }; no tag means "latest"
+export function splitLocalName(name: string): { model: string; tag: string } {
+  const bare = name.replace(/^registry\.ollama\.ai\//, '').replace(/^library\//, '');
+  const index = bare.lastIndexOf(':');
+  return index === -1
+    ? { model: bare, tag: 'latest' }
+    : { model: bare.slice(0, index), tag: bare.slice(index + 1) };
+}
+
+// The catalog version a local tag was pulled from; "latest" may only exist as the isLatest flag
+function findUpstreamVersion(model: ModelData, tag: string): ModelVersion | undefined {
+  return model.versions.find(version => getTagName(version) === tag) ||
+    (tag === 'latest' ? model.versions.find(version => version.isLatest) : undefined);
+}
+
+// Local status per catalog model name, for the models that have at least one tag installed.
+// Upstream "updated" times come from relative text ("2 weeks ago"), so outdated tags are approximate.
+export function getLocalModelStatus(models: ModelData[], local: LocalModel[]): Map<string, LocalModelStatus> {
+  const catalog = new Map(models.map(model => [model.name, model]));
+  const statuses = new Map<string, LocalModelStatus>();
+
+  local.forEach(localModel => {
+    const { model: name, tag } = splitLocalName(localModel.name);
+    const model = catalog.get(name);
+    if (!model) return;
+
+    const status = statuses.get(name) || { tags: [], diskBytes: 0, outdatedTags: [] };
+    status.tags.push(tag);
+    status.diskBytes += localModel.sizeBytes;
+
+    const upstream = findUpstreamVersion(model, tag);
+    const upstreamUpdated = upstream ? Date.parse(getUpdatedAt(upstream) || '') : NaN;
+    if (upstreamUpdated > Date.parse(localModel.modifiedAt)) status.outdatedTags.push(tag);
+
+    statuses.set(name, status);
+  });
+
+  return statuses;
+}
+
+// Disk usage as shown in the table: "4.7GB", "850MB"
+export function formatDiskSize(bytes: number): string {
+  if (bytes >= 1e9) return `${parseFloat((bytes / 1e9).toFixed(1))}GB`;
+  return `${Math.round(bytes / 1e6)}MB`;
+}
@@ -0,0 +1,137 @@
+import { ModelData } from './types';
+import { QueryNode, matchesQuery } from './query';
+import { FitFilter, ModelFit } from './hardware';
+import { TagFilter, isTagFilterActive, matchesTagFilter } from './tagInfo';
+import { InstallFilter, LocalModelStatus } from './localModels';
+import { getSizeBytes, getContextTokens, getPullCount, getUpdatedAt } from './units';
+
+// Filtering and sorting shared by the table, exports and the API
+
+export type SortField = 'name' | 'capabilities' | 'versions' | 'size' | 'context' | 'fit' | 'pulls' | 'updated';
+export type SortDirection = 'asc' | 'desc';
+
+export const SORT_FIELDS: SortField[] = ['name', 'capabilities', 'versions', 'size', 'context', 'fit', 'pulls', 'updated'];
+
+export interface ModelFilterOptions {
+  query?: QueryNode | null;
+  // Lower-case capability name
+  capability?: string | null;
+  // Hardware fit per model name, when a hardware profile is active
+  fits?: Map<string, ModelFit>;
+  fitFilter?: FitFilter;
+  // Local status per installed model name, when an Ollama server is reachable
+  installed?: Map<string, LocalModelStatus>;
+  installFilter?: InstallFilter;
+  // Only these model names (the watchlist view), when set
+  watchlist?: Set<string>;
+  sortField?: SortField;
+  sortDirection?: SortDirection;
+}
+
+// Restrict each model to the tags matching the tag filter, dropping models without any
+export function applyTagFilter(models: ModelData[], filter: TagFilter): ModelData[] {
+  if (!isTagFilterActive(filter)) return models;
+  return models
+    .map(model => ({ ...model, versions: model.versions.filter(v => matchesTagFilter(v, filter)) }))
+    .filter(model => model.versions.length > 0);
+}
+
+// Value a model is sorted by for a given field
+function getSortValue(model: ModelData, field: SortField, fits?: Map<string, ModelFit>): string | number {
+  switch (field) {
+    case 'name':
+      return model.name.toLowerCase();
+    case 'capabilities':
+      return model.capabilities.length;
+    case 'versions':
+      return model.versions.length;
+    case 'size': {
+      const sizes = model.versions.map(v => getSizeBytes(v) || 0).filter(s => s > 0);
+      return sizes.length > 0 ? Math.min(...sizes) : 0;
+    }
+    case 'context': {
+      const contexts = model.versions.map(v => getContextTokens(v) || 0).filter(c => c > 0);
+      return contexts.length > 0 ? Math.max(...contexts) : 0;
+    }
+    case 'fit':
+      // Largest version that fits the hardware profile
+      return fits?.get(model.name)?.largestFitBytes || 0;
+    case 'pulls':
+      return getPullCount(model) || 0;
+    case 'updated': {
+      const updatedAt = getUpdatedAt(model);
+      return updatedAt ? Date.parse(updatedAt) : 0;
+    }
+  }
+}
+
+// Models with their sort orders precomputed: sorting happens once per field and
+// direction, so filtering while typing only has to walk the cached order
+export interface ModelIndex {
+  models: ModelData[];
+  fits?: Map<string, ModelFit>;
+  // Positions in `models`, sorted by the field
+  getOrder(field: SortField, direction: SortDirection): number[];
+}
+
+export function createModelIndex(models: ModelData[], fits?: Map<string, ModelFit>): ModelIndex {
+  const values = new Map<SortField, (string | number)[]>();
+  const orders = new Map<string, number[]>();
+
+  return {
+    models,
+    fits,
+    getOrder(field, direction) {
+      const key = `${field}:${direction}`;
+      let order = orders.get(key);
+      if (!order) {
+        if (!values.has(field)) values.set(field, models.map(model => getSortValue(model, field, fits)));
+        const fieldValues = values.get(field)!;
+        const sign = direction === 'asc' ? 1 : -1;
+
+        // Ties keep catalog order in both directions
+        order = models.map((_, i) => i).sort((a, b) => {
+          if (fieldValues[a] < fieldValues[b]) return -sign;
+          if (fieldValues[a] > fieldValues[b]) return sign;
+          return 0;
+        });
+        orders.set(key, order);
+      }
+      return order;
+    }
+  };
+}
+
+// Filter an index by search query, capability, hardware fit, local installation and watchlist,
+// returning the matching models in sort order
+export function filterModelIndex(index: ModelIndex, options: ModelFilterOptions = {}): ModelData[] {
+  const { query, capability, fitFilter = 'all', installed, installFilter = 'all', watchlist, sortField = 'name', sortDirection = 'asc' } = options;
+  const { models, fits } = index;
+  const now = Date.now();
+
+  const matches = (model: ModelData) => {
+    if (watchlist && !watchlist.has(model.name)) return false;
+
+    const passesCapabilityFilter = !capability ||
+      model.capabilities.some(cap => cap.toLowerCase() === capability);
+
+    const fit = fits?.get(model.name);
+    const passesFitFilter = !fit || fitFilter === 'all' ||
+      fit.level === 'fits' || (fitFilter === 'runs' && fit.level === 'partial');
+
+    const passesInstallFilter = !installed || installFilter === 'all' ||
+      installed.has(model.name) === (installFilter === 'installed');
+
+    return passesCapabilityFilter && passesFitFilter && passesInstallFilter && (!query || matchesQuery(model, query, now));
+  };
+
+  const result: ModelData[] = [];
+  index.getOrder(sortField, sortDirection).forEach(i => {
+    if (matches(models[i])) result.push(models[i]);
+  });
+  return result;
+}
+
+export function filterAndSortModels(models: ModelData[], options: ModelFilterOptions = {}): ModelData[] {
+  return filterModelIndex(createModelIndex(models, options.fits), options);
+}
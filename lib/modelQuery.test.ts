@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { hasModelQueryParams, parseModelQuery, runModelQuery, ModelQueryError } from './modelQuery';
+import { ModelData } from './types';
+
+const VERSION = '2025-06-01T00:00:00.000Z';
+
+const model = (name: string): ModelData => ({
+  name,
+  url: `https://ollama.com/library/${name}`,
+  description: '',
+  capabilities: [],
+  pulls: '1M',
+  tags: '1',
+  updated: '',
+  versions: []
+});
+
+const MODELS = ['alpha', 'bravo', 'charlie'].map(model);
+
+describe('hasModelQueryParams', () => {
+  it('is true for filter, cursor and fields parameters', () => {
+    expect(hasModelQueryParams({ capability: 'vision' })).toBe(true);
+    expect(hasModelQueryParams({ cursor: 'abc' })).toBe(true);
+    expect(hasModelQueryParams({ fields: 'name', _: '1699999999' })).toBe(true);
+  });
+
+  it('is false for no or only unknown parameters', () => {
+    expect(hasModelQueryParams({})).toBe(false);
+    expect(hasModelQueryParams({ _: '1699999999', t: 'x' })).toBe(false);
+  });
+});
+
+describe('parseModelQuery', () => {
+  it('ignores unknown parameters', () => {
+    const withBuster = parseModelQuery({ name: 'a', _: '1699999999' }, VERSION);
+    expect(withBuster).toEqual(parseModelQuery({ name: 'a' }, VERSION));
+  });
+
+  it('accepts a cursor when only the cache-buster changed', () => {
+    const first = runModelQuery(MODELS, parseModelQuery({ limit: '2', _: '1' }, VERSION), VERSION);
+    const second = runModelQuery(MODELS, parseModelQuery({ limit: '2', cursor: first.nextCursor!, _: '2' }, VERSION), VERSION);
+
+    expect(first.models.map(m => m.name)).toEqual(['alpha', 'bravo']);
+    expect(second.models.map(m => m.name)).toEqual(['charlie']);
+  });
+
+  it('still rejects invalid values of known parameters', () => {
+    expect(() => parseModelQuery({ limit: '0' }, VERSION)).toThrow(ModelQueryError);
+    expect(() => parseModelQuery({ maxSize: 'huge' }, VERSION)).toThrow('maxSize must be');
+    expect(() => parseModelQuery({ sort: ['name', 'pulls'] }, VERSION)).toThrow('sort may only be given once');
+  });
+});
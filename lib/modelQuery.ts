@@ -0,0 +1,256 @@
+import { ModelData } from './types';
+import { QueryNode, parseQuery, QuerySyntaxError } from './query';
+import { SORT_FIELDS, SortField, SortDirection, filterAndSortModels } from './modelFilters';
+import { parseSizeBytes, parseContextTokens, getSizeBytes, getContextTokens } from './units';
+
+// Query parameters of the public models API, e.g.
+//   GET /api/models?capability=vision&maxSize=10GB&sort=pulls&dir=desc&limit=20&fields=name,pulls
+// Invalid values are errors rather than ignored, so a typo in a value does not silently
+// return the whole catalog. Unknown parameters (e.g. cache-busters like ?_=123) are ignored.
+
+export const MODEL_FIELDS: (keyof ModelData)[] = [
+  'name',
+  'url',
+  'description',
+  'capabilities',
+  'pulls',
+  'tags',
+  'updated',
+  'versions',
+  'pullCount',
+  'tagCount',
+  'updatedAt'
+];
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+// Supported parameters; a request without any of them gets the full catalog instead
+export const MODEL_QUERY_PARAMS = [
+  'q',
+  'name',
+  'capability',
+  'minSize',
+  'maxSize',
+  'minContext',
+  'maxContext',
+  'sort',
+  'dir',
+  'limit',
+  'cursor',
+  'fields'
+];
+
+export interface ModelQuery {
+  query: QueryNode | null;
+  // Substring of the model name, lower case
+  name?: string;
+  // Lower-case capability names, all required
+  capabilities: string[];
+  // Byte and token ranges; a model matches when one of its versions is in range
+  minSize?: number;
+  maxSize?: number;
+  minContext?: number;
+  maxContext?: number;
+  sortField: SortField;
+  sortDirection: SortDirection;
+  limit: number;
+  offset: number;
+  // Cursor fingerprint, so a cursor is only accepted for the query that produced it
+  signature: string;
+  // Fields to return, or undefined for whole models
+  fields?: (keyof ModelData)[];
+}
+
+export interface ModelQueryResult {
+  models: Partial<ModelData>[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export class ModelQueryError extends Error {
+  constructor(public error: string, message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ModelQueryError';
+  }
+}
+
+type Query = Record<string, string | string[] | undefined>;
+
+// A parameter given once; repeating it is an error rather than a guess at which one wins
+function single(query: Query, key: string): string | undefined {
+  const value = query[key];
+  if (Array.isArray(value)) {
+    if (value.length > 1) {
+      throw new ModelQueryError('Invalid parameter', `${key} may only be given once`);
+    }
+    return value[0];
+  }
+  return value;
+}
+
+// Comma-separated (or repeated) list values
+function list(query: Query, key: string): string[] {
+  const value = query[key];
+  const values = Array.isArray(value) ? value : value !== undefined ? [value] : [];
+  return values.flatMap(v => v.split(',')).map(v => v.trim()).filter(Boolean);
+}
+
+function parseRangeValue(query: Query, key: string, parse: (text: string) => number | undefined, example: string): number | undefined {
+  const text = single(query, key);
+  if (text === undefined || text === '') return undefined;
+
+  // Bare numbers are bytes / tokens
+  const value = /^\d+$/.test(text) ? parseInt(text, 10) : parse(text);
+  if (value === undefined) {
+    throw new ModelQueryError('Invalid parameter', `${key} must be ${example}, got "${text}"`);
+  }
+  return value;
+}
+
+// Small stable hash for cursor signatures (FNV-1a)
+function hash(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+}
+
+interface Cursor {
+  // Offset of the next page
+  o: number;
+  // Query signature
+  s: string;
+  // Catalog version (lastUpdated) the offset refers to
+  v: string;
+}
+
+export function encodeCursor(offset: number, signature: string, catalogVersion: string): string {
+  const cursor: Cursor = { o: offset, s: signature, v: catalogVersion };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(text: string): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(text, 'base64url').toString('utf-8'));
+    if (Number.isInteger(cursor?.o) && cursor.o >= 0 && typeof cursor.s === 'string' && typeof cursor.v === 'string') {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new ModelQueryError('Invalid cursor', 'cursor is not a value returned as nextCursor by this API');
+}
+
+// The fields parameter, or undefined for whole models
+export function parseFields(query: Query): (keyof ModelData)[] | undefined {
+  const fields = list(query, 'fields');
+  const unknown = fields.filter(field => !(MODEL_FIELDS as string[]).includes(field));
+  if (unknown.length > 0) {
+    throw new ModelQueryError('Invalid fields', `Unknown field ${unknown.map(f => `"${f}"`).join(', ')}. Supported: ${MODEL_FIELDS.join(', ')}`);
+  }
+  return fields.length > 0 ? fields as (keyof ModelData)[] : undefined;
+}
+
+// True when the request asks for anything other than the plain full catalog
+export function hasModelQueryParams(query: Query): boolean {
+  return Object.keys(query).some(key => MODEL_QUERY_PARAMS.includes(key));
+}
+
+// Read and validate the query parameters; throws ModelQueryError with a message for the caller
+export function parseModelQuery(query: Query, catalogVersion: string): ModelQuery {
+  let parsedQuery: QueryNode | null;
+  try {
+    parsedQuery = parseQuery(single(query, 'q') || '');
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) throw new ModelQueryError('Invalid query', error.message);
+    throw error;
+  }
+
+  const sort = single(query, 'sort') || 'name';
+  const dir = single(query, 'dir') || 'asc';
+  if (!(SORT_FIELDS as string[]).includes(sort) || (dir !== 'asc' && dir !== 'desc')) {
+    throw new ModelQueryError('Invalid sort', `sort must be one of: ${SORT_FIELDS.join(', ')}; dir must be asc or desc`);
+  }
+
+  const limitText = single(query, 'limit');
+  const limit = limitText === undefined ? DEFAULT_PAGE_SIZE : Number(limitText);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ModelQueryError('Invalid parameter', `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  const parsed: Omit<ModelQuery, 'offset' | 'signature'> = {
+    query: parsedQuery,
+    name: single(query, 'name')?.toLowerCase() || undefined,
+    capabilities: list(query, 'capability').map(cap => cap.toLowerCase()),
+    minSize: parseRangeValue(query, 'minSize', parseSizeBytes, 'a size like 10GB or 500MB'),
+    maxSize: parseRangeValue(query, 'maxSize', parseSizeBytes, 'a size like 10GB or 500MB'),
+    minContext: parseRangeValue(query, 'minContext', parseContextTokens, 'a context length like 128K'),
+    maxContext: parseRangeValue(query, 'maxContext', parseContextTokens, 'a context length like 128K'),
+    sortField: sort as SortField,
+    sortDirection: dir,
+    limit,
+    fields: parseFields(query)
+  };
+
+  // Everything that changes the result order or set, but not the page size or fields
+  const signature = hash(JSON.stringify([
+    single(query, 'q') || '', parsed.name, parsed.capabilities, parsed.minSize, parsed.maxSize,
+    parsed.minContext, parsed.maxContext, parsed.sortField, parsed.sortDirection
+  ]));
+
+  let offset = 0;
+  const cursorText = single(query, 'cursor');
+  if (cursorText) {
+    const cursor = decodeCursor(cursorText);
+    if (cursor.s !== signature) {
+      throw new ModelQueryError('Invalid cursor', 'cursor belongs to a request with different filters or sort; repeat them unchanged when paging');
+    }
+    if (cursor.v !== catalogVersion) {
+      throw new ModelQueryError('Cursor expired', 'The catalog was refreshed since this cursor was issued; start again without a cursor', 409);
+    }
+    offset = cursor.o;
+  }
+
+  return { ...parsed, offset, signature };
+}
+
+const inRange = (value: number | undefined, min?: number, max?: number) =>
+  value !== undefined && (min === undefined || value >= min) && (max === undefined || value <= max);
+
+// Keep only the requested fields of a model
+export function selectFields(model: ModelData, fields?: (keyof ModelData)[]): Partial<ModelData> {
+  if (!fields) return model;
+  const selected: Partial<ModelData> = {};
+  fields.forEach(field => {
+    if (model[field] !== undefined) (selected as Record<string, unknown>)[field] = model[field];
+  });
+  return selected;
+}
+
+// Filter, sort and page the catalog for a parsed query
+export function runModelQuery(models: ModelData[], modelQuery: ModelQuery, catalogVersion: string): ModelQueryResult {
+  const { name, capabilities, minSize, maxSize, minContext, maxContext } = modelQuery;
+  const hasSizeRange = minSize !== undefined || maxSize !== undefined;
+  const hasContextRange = minContext !== undefined || maxContext !== undefined;
+
+  const matches = filterAndSortModels(models, {
+    query: modelQuery.query,
+    sortField: modelQuery.sortField,
+    sortDirection: modelQuery.sortDirection
+  }).filter(model =>
+    (!name || model.name.toLowerCase().includes(name)) &&
+    capabilities.every(cap => model.capabilities.some(c => c.toLowerCase() === cap)) &&
+    (!hasSizeRange || model.versions.some(v => inRange(getSizeBytes(v), minSize, maxSize))) &&
+    (!hasContextRange || model.versions.some(v => inRange(getContextTokens(v), minContext, maxContext)))
+  );
+
+  const end = modelQuery.offset + modelQuery.limit;
+  return {
+    models: matches.slice(modelQuery.offset, end).map(model => selectFields(model, modelQuery.fields)),
+    total: matches.length,
+    nextCursor: end < matches.length ? encodeCursor(end, modelQuery.signature, catalogVersion) : null
+  };
+}
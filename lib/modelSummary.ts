@@ -0,0 +1,60 @@
+import { ModelVersion } from './types';
+import { getSizeBytes, getContextTokens } from './units';
+import { getTagInfo, formatParameterCount } from './tagInfo';
+
+// Display summaries over a model's versions, shared by the table and comparison views
+
+// Size range such as "1.3GB – 40GB"
+export function getModelSizes(versions: ModelVersion[]): string {
+  const sized = versions.filter(v => v.size && v.size !== '');
+  if (sized.length === 0) return 'N/A';
+  if (sized.length === 1) return sized[0].size;
+
+  // Sort sizes numerically for proper min/max
+  const numericSizes = sized.map(v => getSizeBytes(v) || 0);
+  const minSize = sized[numericSizes.indexOf(Math.min(...numericSizes))].size;
+  const maxSize = sized[numericSizes.indexOf(Math.max(...numericSizes))].size;
+
+  return minSize === maxSize ? minSize : `${minSize} – ${maxSize}`;
+}
+
+// Parameter count range such as "1B – 70B", or null when no tag encodes it
+export function getParameterRange(versions: ModelVersion[]): string | null {
+  const counts = versions
+    .map(v => getTagInfo(v).parameterCount)
+    .filter((c): c is number => c !== undefined);
+  if (counts.length === 0) return null;
+
+  const min = formatParameterCount(Math.min(...counts));
+  const max = formatParameterCount(Math.max(...counts));
+  return min === max ? min : `${min} – ${max}`;
+}
+
+// Distinct parameter sizes, smallest first: ["1B", "3B", "8B"]
+export function getParameterSizes(versions: ModelVersion[]): string[] {
+  const counts = Array.from(new Set(
+    versions
+      .map(v => getTagInfo(v).parameterCount)
+      .filter((c): c is number => c !== undefined)
+  ));
+  return counts.sort((a, b) => a - b).map(formatParameterCount);
+}
+
+// Largest context window as displayed, e.g. "128K"
+export function getMaxContext(versions: ModelVersion[]): string {
+  const withContext = versions.filter(v => v.context && v.context !== '');
+  if (withContext.length === 0) return 'N/A';
+
+  // Find max context window
+  const numericContexts = withContext.map(v => getContextTokens(v) || 0);
+  return withContext[numericContexts.indexOf(Math.max(...numericContexts))].context;
+}
+
+// Distinct input modalities across versions: ["Text", "Image"]
+export function getInputModalities(versions: ModelVersion[]): string[] {
+  const inputs = new Set<string>();
+  versions.forEach(v => {
+    v.input.split(',').map(input => input.trim()).filter(Boolean).forEach(input => inputs.add(input));
+  });
+  return Array.from(inputs);
+}
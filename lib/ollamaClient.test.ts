@@ -0,0 +1,157 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { listLocalModels } from './ollamaClient';
+import { getLocalModelStatus } from './localModels';
+import { HttpError } from './retry';
+import { ModelData } from './types';
+import localModelsHandler from '../pages/api/local-models/index';
+
+// A stand-in for an Ollama server; each test sets how /api/tags answers
+let reply: (res: http.ServerResponse) => void;
+let server: http.Server;
+let host: string;
+
+const TAGS = {
+  models: [
+    { name: 'llama3.2:latest', model: 'llama3.2:latest', size: 2019393189, digest: 'a80c4f17acd5', modified_at: '2025-01-01T00:00:00Z' },
+    { name: 'registry.ollama.ai/library/llava:7b', size: 4733363377, digest: '8dd30f6b0cb1', modified_at: '2025-05-30T00:00:00Z' },
+    { model: 'my-model:v1', size: 1000, digest: 'ffff', modified_at: '2025-01-01T00:00:00Z' },
+    { size: 1 }
+  ]
+};
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url !== '/api/tags') {
+      res.writeHead(404).end();
+      return;
+    }
+    reply(res);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  host = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const json = (status: number, body: unknown) => (res: http.ServerResponse) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+};
+
+// A port nothing listens on: bind one, then close it
+async function closedPortHost(): Promise<string> {
+  const probe = http.createServer();
+  await new Promise<void>(resolve => probe.listen(0, '127.0.0.1', resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise<void>(resolve => probe.close(() => resolve()));
+  return `http://127.0.0.1:${port}`;
+}
+
+describe('listLocalModels', () => {
+  it('reads the models from /api/tags', async () => {
+    reply = json(200, TAGS);
+    expect(await listLocalModels(host)).toEqual([
+      { name: 'llama3.2:latest', sizeBytes: 2019393189, digest: 'a80c4f17acd5', modifiedAt: '2025-01-01T00:00:00Z' },
+      { name: 'registry.ollama.ai/library/llava:7b', sizeBytes: 4733363377, digest: '8dd30f6b0cb1', modifiedAt: '2025-05-30T00:00:00Z' },
+      { name: 'my-model:v1', sizeBytes: 1000, digest: 'ffff', modifiedAt: '2025-01-01T00:00:00Z' }
+    ]);
+  });
+
+  it('returns an empty list when nothing is pulled', async () => {
+    reply = json(200, { models: [] });
+    expect(await listLocalModels(host)).toEqual([]);
+  });
+
+  it('throws an HttpError for a non-2xx answer', async () => {
+    reply = json(500, { error: 'boom' });
+    await expect(listLocalModels(host)).rejects.toMatchObject({ name: 'HttpError', status: 500 });
+    await expect(listLocalModels(host)).rejects.toBeInstanceOf(HttpError);
+  });
+
+  it('throws for malformed JSON or an unexpected shape', async () => {
+    reply = res => res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"models": [');
+    await expect(listLocalModels(host)).rejects.toThrow('did not return a model list');
+
+    reply = json(200, { models: 'none' });
+    await expect(listLocalModels(host)).rejects.toThrow('did not return a model list');
+  });
+
+  it('throws when the server is unreachable', async () => {
+    await expect(listLocalModels(await closedPortHost())).rejects.toThrow();
+  });
+
+  it('gives up after the timeout', async () => {
+    reply = res => setTimeout(() => json(200, TAGS)(res), 500);
+    await expect(listLocalModels(host, 50)).rejects.toMatchObject({ name: 'TimeoutError' });
+  });
+});
+
+describe('getLocalModelStatus', () => {
+  const catalog: ModelData[] = [
+    {
+      name: 'llama3.2', url: '', description: '', capabilities: [], pulls: '', tags: '', updated: '',
+      versions: [{ name: 'llama3.2:3b', size: '2.0GB', context: '128K', input: 'Text', updated: '', isLatest: true, url: '', updatedAt: '2025-03-01T00:00:00Z' }]
+    },
+    {
+      name: 'llava', url: '', description: '', capabilities: [], pulls: '', tags: '', updated: '',
+      versions: [{ name: 'llava:7b', size: '4.7GB', context: '32K', input: 'Text, Image', updated: '', url: '', updatedAt: '2025-03-01T00:00:00Z' }]
+    }
+  ];
+
+  it('matches the mock server models to the catalog', async () => {
+    reply = json(200, TAGS);
+    const statuses = getLocalModelStatus(catalog, await listLocalModels(host));
+
+    expect(Array.from(statuses.keys())).toEqual(['llama3.2', 'llava']);
+    // "latest" resolves to the isLatest version, updated after the local pull
+    expect(statuses.get('llama3.2')).toEqual({ tags: ['latest'], diskBytes: 2019393189, outdatedTags: ['latest'] });
+    expect(statuses.get('llava')).toEqual({ tags: ['7b'], diskBytes: 4733363377, outdatedTags: [] });
+  });
+});
+
+describe('GET /api/local-models', () => {
+  // Just enough of NextApiResponse to capture the answer
+  const call = async () => {
+    const result: { status?: number; body?: any } = {};
+    const res = {
+      status(code: number) {
+        result.status = code;
+        return res;
+      },
+      json(body: unknown) {
+        result.body = body;
+        return res;
+      }
+    };
+    await localModelsHandler({ method: 'GET' } as NextApiRequest, res as unknown as NextApiResponse);
+    return result;
+  };
+
+  afterEach(() => {
+    delete process.env.OLLAMA_HOST;
+  });
+
+  it('lists the models of the configured server', async () => {
+    process.env.OLLAMA_HOST = host;
+    reply = json(200, TAGS);
+    const { status, body } = await call();
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ available: true, host });
+    expect(body.models).toHaveLength(3);
+  });
+
+  it('answers 200 with available: false when Ollama is down or broken', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    process.env.OLLAMA_HOST = await closedPortHost();
+    expect(await call()).toMatchObject({ status: 200, body: { available: false, models: [] } });
+
+    process.env.OLLAMA_HOST = host;
+    reply = json(502, {});
+    const { body } = await call();
+    expect(body).toMatchObject({ available: false, message: expect.stringContaining('HTTP 502') });
+  });
+});
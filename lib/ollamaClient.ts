@@ -0,0 +1,139 @@
+import { LocalModel } from './types';
+import { HttpError, toHttpError } from './retry';
+
+// Client for the Ollama server API (not ollama.com), used on the server side
+
+const DEFAULT_OLLAMA_HOST = 'http://localhost:11434';
+const DEFAULT_TIMEOUT_MS = 3000;
+
+// OLLAMA_HOST as Ollama itself accepts it: "http://host:port", or just "host:port"
+export function getOllamaHost(): string {
+  const host = (process.env.OLLAMA_HOST || DEFAULT_OLLAMA_HOST).trim().replace(/\/+$/, '');
+  return /^https?:\/\//.test(host) ? host : `http://${host}`;
+}
+
+// Pull, delete and copy change the server's models, so they are off unless enabled
+export function isOllamaActionsEnabled(): boolean {
+  return process.env.OLLAMA_ACTIONS_ENABLED === 'true';
+}
+
+// "llama3.2", "llama3.2:3b", "user/model:tag"
+export function isValidModelName(name: unknown): name is string {
+  return typeof name === 'string' && name.length <= 200 && /^[\w.-]+(\/[\w.-]+)?(:[\w.-]+)?$/.test(name);
+}
+
+// Ollama reports errors as { "error": "..." }; keep that message with the status
+async function toOllamaError(response: Response): Promise<HttpError> {
+  const data = await response.json().catch(() => null);
+  return typeof data?.error === 'string'
+    ? new HttpError(response.status, data.error)
+    : toHttpError(response);
+}
+
+// Shape of one entry in the /api/tags response
+interface OllamaTagsEntry {
+  name?: string;
+  model?: string;
+  size?: number;
+  digest?: string;
+  modified_at?: string;
+}
+
+// Models pulled on the Ollama server; throws when it is unreachable or answers with an error
+export async function listLocalModels(host: string = getOllamaHost(), timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<LocalModel[]> {
+  const response = await fetch(`${host}/api/tags`, { signal: AbortSignal.timeout(timeoutMs) });
+  if (!response.ok) {
+    throw toHttpError(response);
+  }
+
+  const data: { models?: OllamaTagsEntry[] } | null = await response.json().catch(() => null);
+  if (!data || (data.models !== undefined && !Array.isArray(data.models))) {
+    throw new Error(`${host}/api/tags did not return a model list`);
+  }
+
+  return (data.models || [])
+    .map(entry => ({
+      name: entry.name || entry.model || '',
+      sizeBytes: entry.size || 0,
+      digest: entry.digest || '',
+      modifiedAt: entry.modified_at || ''
+    }))
+    .filter(model => model.name !== '');
+}
+
+// One line of the streamed /api/pull response
+export interface PullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
+// Pull a model, reporting each progress line; resolves once Ollama reports success
+export async function pullModel(
+  name: string,
+  onProgress: (progress: PullProgress) => void,
+  signal?: AbortSignal,
+  host: string = getOllamaHost()
+): Promise<void> {
+  const response = await fetch(`${host}/api/pull`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: name, stream: true }),
+    signal
+  });
+  if (!response.ok) {
+    throw await toOllamaError(response);
+  }
+  if (!response.body) {
+    throw new Error('Ollama returned an empty response');
+  }
+
+  // Newline-delimited JSON, one object per progress update
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let succeeded = false;
+
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    buffer += decoder.decode(result.value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const update = JSON.parse(line);
+      if (update.error) throw new Error(update.error);
+      if (update.status === 'success') succeeded = true;
+      onProgress(update);
+    }
+  }
+
+  if (!succeeded) {
+    throw new Error('Pull ended before Ollama reported success');
+  }
+}
+
+export async function deleteModel(name: string, host: string = getOllamaHost()): Promise<void> {
+  const response = await fetch(`${host}/api/delete`, {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: name }),
+    signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw await toOllamaError(response);
+  }
+}
+
+export async function copyModel(source: string, destination: string, host: string = getOllamaHost()): Promise<void> {
+  const response = await fetch(`${host}/api/copy`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ source, destination }),
+    signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw await toOllamaError(response);
+  }
+}
@@ -0,0 +1,146 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { parseModelList, parseModelVersions, formatDriftWarning, SEARCH_SELECTORS, MODEL_PAGE_SELECTORS } from './ollamaParser';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf-8');
+
+const NOW = new Date('2025-06-01T00:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('parseModelList', () => {
+  const { data: models, warnings } = parseModelList(fixture('search.html'), NOW);
+
+  it('reads every listed model', () => {
+    expect(models.map(m => m.name)).toEqual(['llama3.2', 'llava', 'nomic-embed-text']);
+    expect(warnings).toEqual([]);
+  });
+
+  it('reads the fields of a model', () => {
+    expect(models[0]).toMatchObject({
+      name: 'llama3.2',
+      url: 'https://ollama.com/library/llama3.2',
+      description: "Meta's Llama 3.2 goes small with 1B and 3B models.",
+      capabilities: ['tools'],
+      pulls: '20.5M',
+      tags: '63',
+      updated: '1 year ago',
+      versions: []
+    });
+  });
+
+  it('normalizes counts and relative times', () => {
+    expect(models[0].pullCount).toBe(20_500_000);
+    expect(models[0].tagCount).toBe(63);
+    expect(models[2].updatedAt).toBe(new Date(NOW.getTime() - DAY).toISOString());
+  });
+
+  it('does not mistake the stats line for the description', () => {
+    expect(models[1].description).toMatch(/^🌋 LLaVA/);
+  });
+
+  it('allows models without capabilities', () => {
+    expect(models[1].capabilities).toEqual(['vision']);
+    expect(models[2].capabilities).toEqual([]);
+  });
+});
+
+describe('parseModelVersions', () => {
+  const { data: versions, warnings } = parseModelVersions(fixture('model-llama3.2.html'), NOW);
+  const byName = new Map(versions.map(v => [v.name, v]));
+
+  it('merges the mobile and desktop rows of each version', () => {
+    expect(versions.map(v => v.name)).toEqual(['llama3.2:latest', 'llama3.2:1b', 'llama3.2:3b-instruct-fp16']);
+    expect(warnings).toEqual([]);
+  });
+
+  it('ignores links without a tag', () => {
+    expect(byName.has('llama3.2')).toBe(false);
+  });
+
+  it('reads size, context, input and the latest badge', () => {
+    expect(byName.get('llama3.2:latest')).toMatchObject({
+      size: '2.0GB',
+      context: '128K',
+      input: 'Text',
+      isLatest: true,
+      url: 'https://ollama.com/library/llama3.2:latest',
+      sizeBytes: 2_000_000_000,
+      contextTokens: 131072
+    });
+    expect(byName.get('llama3.2:1b')?.isLatest).toBe(false);
+  });
+
+  it('keeps the updated time from the mobile row', () => {
+    expect(byName.get('llama3.2:latest')?.updated).toBe('1 year ago');
+    expect(byName.get('llama3.2:latest')?.updatedAt).toBe(new Date(NOW.getTime() - 365 * DAY).toISOString());
+  });
+
+  it('keeps versions that only have a desktop row, without an updated time', () => {
+    expect(byName.get('llama3.2:3b-instruct-fp16')).toMatchObject({ size: '6.4GB', updated: '' });
+    expect(byName.get('llama3.2:3b-instruct-fp16')?.updatedAt).toBeUndefined();
+  });
+
+  it('parses tag info from the version name', () => {
+    expect(byName.get('llama3.2:3b-instruct-fp16')).toMatchObject({ parameterCount: 3e9, variant: 'instruct' });
+  });
+});
+
+describe('markup drift warnings', () => {
+  it('warns when the search page has no model entries', () => {
+    const { data, warnings } = parseModelList('<html><body><ul></ul></body></html>', NOW);
+    expect(data).toEqual([]);
+    expect(warnings).toEqual([expect.objectContaining({ page: 'search', selector: SEARCH_SELECTORS.model })]);
+  });
+
+  it('warns about a field selector that never matches', () => {
+    const html = fixture('search.html').replace(/x-test-pull-count/g, 'data-pulls');
+    const { data, warnings } = parseModelList(html, NOW);
+
+    expect(data).toHaveLength(3);
+    expect(data[0].pulls).toBe('');
+    expect(warnings).toEqual([expect.objectContaining({ selector: SEARCH_SELECTORS.pulls })]);
+    expect(formatDriftWarning(warnings[0])).toBe(
+      `search page selector "${SEARCH_SELECTORS.pulls}" matched nothing in any of the 3 model entries`
+    );
+  });
+
+  it('does not warn about optional fields', () => {
+    const html = fixture('search.html').replace(/x-test-capability/g, 'data-capability');
+    expect(parseModelList(html, NOW).warnings).toEqual([]);
+  });
+
+  it('warns when only desktop rows are found', () => {
+    const html = fixture('model-llama3.2.html').replace(/class="sm:hidden flex/g, 'class="flex');
+    const { data, warnings } = parseModelVersions(html, NOW);
+
+    expect(data).toHaveLength(3);
+    expect(data.every(v => v.updated === '')).toBe(true);
+    expect(warnings).toEqual([
+      expect.objectContaining({ selector: MODEL_PAGE_SELECTORS.mobileRow, message: expect.stringContaining('updated times will be missing') })
+    ]);
+  });
+
+  it('warns when only mobile rows are found', () => {
+    const html = fixture('model-llama3.2.html').replace(/sm:grid-cols-12/g, 'sm:grid-cols-8');
+    const { data, warnings } = parseModelVersions(html, NOW);
+
+    expect(data.map(v => v.name)).toEqual(['llama3.2:latest', 'llama3.2:1b']);
+    expect(warnings).toEqual([expect.objectContaining({ selector: MODEL_PAGE_SELECTORS.desktopRow })]);
+  });
+
+  it('warns when no version rows are found', () => {
+    const { data, warnings } = parseModelVersions('<html><body><main></main></body></html>', NOW);
+    expect(data).toEqual([]);
+    expect(warnings.map(w => w.selector)).toEqual([MODEL_PAGE_SELECTORS.mobileRow, MODEL_PAGE_SELECTORS.desktopRow]);
+    expect(warnings[0].message).toBe('no version rows found');
+  });
+
+  it('warns when rows are found but their cells are not', () => {
+    const html = fixture('model-llama3.2.html').replace(/text-neutral-500/g, 'text-gray-500');
+    const { data, warnings } = parseModelVersions(html, NOW);
+
+    expect(data).toEqual([]);
+    expect(warnings).toEqual([expect.objectContaining({ message: 'version rows found but none had size, context and input' })]);
+  });
+});
@@ -0,0 +1,189 @@
+import { parse, HTMLElement } from 'node-html-parser';
+import { ModelData, ModelVersion } from './types';
+import { normalizeModel, normalizeVersion } from './units';
+
+// Pure parsers for ollama.com pages: HTML string in, models out, no fetching.
+// Selectors that match nothing are reported as markup drift warnings, since
+// that usually means ollama.com changed its markup rather than the page being empty.
+
+export interface MarkupDriftWarning {
+  page: 'search' | 'model';
+  selector: string;
+  message: string;
+}
+
+export interface ParsedPage<T> {
+  data: T;
+  warnings: MarkupDriftWarning[];
+}
+
+export const SEARCH_SELECTORS = {
+  model: 'li[x-test-model]',
+  title: '[x-test-search-response-title]',
+  link: 'a',
+  description: 'p:not([class*="space-x-5"])',
+  capability: '[x-test-capability]',
+  pulls: '[x-test-pull-count]',
+  tags: '[x-test-tag-count]',
+  updated: '[x-test-updated]'
+};
+
+export const MODEL_PAGE_SELECTORS = {
+  mobileRow: 'a[href^="/library/"].sm\\:hidden',
+  mobileName: 'p.font-medium',
+  mobileInfo: 'p.text-neutral-500',
+  desktopRow: 'div.hidden.group',
+  desktopLink: 'a[href^="/library/"]',
+  desktopCell: 'p.text-neutral-500',
+  latestBadge: 'span.border-blue-500'
+};
+
+// Fields every listed model should have; capabilities are optional (many models have none)
+const REQUIRED_SEARCH_FIELDS = ['title', 'link', 'pulls', 'tags', 'updated'] as const;
+
+const text = (element: HTMLElement | null | undefined): string => element?.textContent?.trim() || '';
+
+// Read the models listed on the search page (without versions)
+export function parseModelList(html: string, now: Date = new Date()): ParsedPage<ModelData[]> {
+  const doc = parse(html);
+  const warnings: MarkupDriftWarning[] = [];
+  const elements = doc.querySelectorAll(SEARCH_SELECTORS.model);
+
+  if (elements.length === 0) {
+    warnings.push({
+      page: 'search',
+      selector: SEARCH_SELECTORS.model,
+      message: 'no model entries found on the search page'
+    });
+    return { data: [], warnings };
+  }
+
+  // Count how often each field selector matched, to spot ones that never do
+  const matches: Record<string, number> = {};
+  const found = (field: string, element: HTMLElement | null) => {
+    if (element) matches[field] = (matches[field] || 0) + 1;
+    return element;
+  };
+
+  const models = elements.map(element => {
+    const capabilities = element.querySelectorAll(SEARCH_SELECTORS.capability)
+      .map(cap => text(cap))
+      .filter(Boolean);
+
+    return normalizeModel({
+      name: text(found('title', element.querySelector(SEARCH_SELECTORS.title))),
+      url: `https://ollama.com${found('link', element.querySelector(SEARCH_SELECTORS.link))?.getAttribute('href') || ''}`,
+      description: text(element.querySelector(SEARCH_SELECTORS.description)),
+      capabilities,
+      pulls: text(found('pulls', element.querySelector(SEARCH_SELECTORS.pulls))),
+      tags: text(found('tags', element.querySelector(SEARCH_SELECTORS.tags))),
+      updated: text(found('updated', element.querySelector(SEARCH_SELECTORS.updated))),
+      versions: []
+    }, now);
+  });
+
+  REQUIRED_SEARCH_FIELDS.forEach(field => {
+    if (!matches[field]) {
+      warnings.push({
+        page: 'search',
+        selector: SEARCH_SELECTORS[field],
+        message: `matched nothing in any of the ${elements.length} model entries`
+      });
+    }
+  });
+
+  return { data: models, warnings };
+}
+
+// Read the versions (tags) listed on a model page. The page renders each version
+// twice: a mobile row with the updated time and a desktop grid row without it.
+export function parseModelVersions(html: string, now: Date = new Date()): ParsedPage<ModelVersion[]> {
+  const doc = parse(html);
+  const warnings: MarkupDriftWarning[] = [];
+  const versions: ModelVersion[] = [];
+
+  // Mobile rows: "5.2GB · 128K context window · Text · 1 month ago"
+  const mobileRows = doc.querySelectorAll(MODEL_PAGE_SELECTORS.mobileRow)
+    .filter(element => element.getAttribute('href')?.includes(':'));
+
+  mobileRows.forEach(element => {
+    const parts = text(element.querySelector(MODEL_PAGE_SELECTORS.mobileInfo)).split('·').map(s => s.trim());
+    if (parts.length < 3) return;
+
+    versions.push({
+      name: text(element.querySelector(MODEL_PAGE_SELECTORS.mobileName)),
+      size: parts[0],
+      context: parts[1].replace('context window', '').trim(),
+      input: parts[2],
+      updated: parts[3] || '',
+      isLatest: element.querySelector(MODEL_PAGE_SELECTORS.latestBadge) !== null,
+      url: `https://ollama.com${element.getAttribute('href')}`
+    });
+  });
+
+  // Desktop grid rows
+  const desktopRows = doc.querySelectorAll(MODEL_PAGE_SELECTORS.desktopRow).filter(element =>
+    element.classList.contains('sm:grid') &&
+    element.classList.contains('sm:grid-cols-12') &&
+    element.querySelector(MODEL_PAGE_SELECTORS.desktopLink)?.getAttribute('href')?.includes(':')
+  );
+
+  desktopRows.forEach(element => {
+    const link = element.querySelector(MODEL_PAGE_SELECTORS.desktopLink)!;
+    const cells = element.querySelectorAll(MODEL_PAGE_SELECTORS.desktopCell);
+    if (cells.length < 3) return;
+
+    versions.push({
+      name: text(link),
+      size: text(cells[0]),
+      context: text(cells[1]),
+      input: text(cells[2]),
+      updated: '', // Updated time is not in the desktop grid, get from mobile view
+      isLatest: element.querySelector(MODEL_PAGE_SELECTORS.latestBadge) !== null,
+      url: `https://ollama.com${link.getAttribute('href')}`
+    });
+  });
+
+  if (mobileRows.length === 0) {
+    warnings.push({
+      page: 'model',
+      selector: MODEL_PAGE_SELECTORS.mobileRow,
+      message: desktopRows.length > 0
+        ? 'no mobile version rows found; updated times will be missing'
+        : 'no version rows found'
+    });
+  }
+  if (desktopRows.length === 0) {
+    warnings.push({
+      page: 'model',
+      selector: MODEL_PAGE_SELECTORS.desktopRow,
+      message: 'no desktop version rows found'
+    });
+  }
+  if (versions.length === 0 && mobileRows.length + desktopRows.length > 0) {
+    warnings.push({
+      page: 'model',
+      selector: `${MODEL_PAGE_SELECTORS.mobileInfo}, ${MODEL_PAGE_SELECTORS.desktopCell}`,
+      message: 'version rows found but none had size, context and input'
+    });
+  }
+
+  // Merge both renderings of each version, preferring mobile for the updated time
+  const merged = new Map<string, ModelVersion>();
+  versions.forEach(version => {
+    const existing = merged.get(version.name);
+    merged.set(version.name, existing
+      ? { ...existing, ...version, updated: version.updated || existing.updated }
+      : version);
+  });
+
+  // Resolve relative "updated" text against the given time
+  return {
+    data: Array.from(merged.values()).map(version => normalizeVersion(version, now)),
+    warnings
+  };
+}
+
+export function formatDriftWarning(warning: MarkupDriftWarning): string {
+  return `${warning.page} page selector "${warning.selector}" ${warning.message}`;
+}
@@ -0,0 +1,159 @@
+import { SORT_FIELDS } from './modelFilters';
+import { MODEL_FIELDS, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './modelQuery';
+
+// OpenAPI description of the public read-only catalog API, served at /api/openapi.
+// Enums and limits come from the code so the document cannot drift from the handlers.
+
+const stringParam = (name: string, description: string, example?: string) => ({
+  name,
+  in: 'query',
+  required: false,
+  description,
+  schema: { type: 'string' },
+  ...(example ? { example } : {})
+});
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiError' } } }
+});
+
+const fieldsParam = {
+  name: 'fields',
+  in: 'query',
+  required: false,
+  description: 'Comma-separated model fields to return; whole models when omitted',
+  schema: { type: 'string' },
+  example: 'name,pulls,capabilities'
+};
+
+export const openApiDocument = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Ollama Models Explorer API',
+    version: '1.0.0',
+    description: 'Read-only access to the cached ollama.com model catalog.'
+  },
+  paths: {
+    '/api/models': {
+      get: {
+        summary: 'Query the catalog',
+        description:
+          'Without parameters, returns the whole catalog with refresh state (the response used by the app). ' +
+          'With any of the parameters below, returns one page of matching models. Other parameters are ignored.',
+        parameters: [
+          stringParam('q', 'Search query, same syntax as the search box', 'cap:vision pulls>1M'),
+          stringParam('name', 'Case-insensitive substring of the model name', 'llama'),
+          stringParam('capability', 'Comma-separated capabilities; a model must have all of them', 'vision,tools'),
+          stringParam('minSize', 'Smallest download size, e.g. 500MB (bare numbers are bytes)'),
+          stringParam('maxSize', 'Largest download size, e.g. 10GB (bare numbers are bytes)', '10GB'),
+          stringParam('minContext', 'Smallest context window, e.g. 32K (bare numbers are tokens)'),
+          stringParam('maxContext', 'Largest context window, e.g. 128K (bare numbers are tokens)'),
+          {
+            name: 'sort',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', enum: SORT_FIELDS, default: 'name' }
+          },
+          {
+            name: 'dir',
+            in: 'query',
+            required: false,
+            schema: { type: 'string', enum: ['asc', 'desc'], default: 'asc' }
+          },
+          {
+            name: 'limit',
+            in: 'query',
+            required: false,
+            description: 'Models per page',
+            schema: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE }
+          },
+          stringParam('cursor', 'nextCursor from the previous page; the other parameters must be repeated unchanged'),
+          fieldsParam
+        ],
+        responses: {
+          200: {
+            description: 'A page of models. Size and context ranges match a model when one of its versions is in range.',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/ModelPage' } } }
+          },
+          400: errorResponse('Invalid parameter, query, sort, fields or cursor'),
+          405: errorResponse('Method other than GET'),
+          409: errorResponse('The catalog was refreshed since the cursor was issued')
+        }
+      }
+    },
+    '/api/models/{name}': {
+      get: {
+        summary: 'Get one model',
+        parameters: [
+          { name: 'name', in: 'path', required: true, schema: { type: 'string' }, example: 'llama3.2' },
+          fieldsParam
+        ],
+        responses: {
+          200: {
+            description: 'The model, or the requested fields of it',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Model' } } }
+          },
+          400: errorResponse('Invalid parameter or fields'),
+          404: errorResponse('No model with this name in the catalog'),
+          405: errorResponse('Method other than GET')
+        }
+      }
+    }
+  },
+  components: {
+    schemas: {
+      ApiError: {
+        type: 'object',
+        required: ['error', 'message'],
+        properties: {
+          error: { type: 'string', example: 'Invalid sort' },
+          message: { type: 'string' }
+        }
+      },
+      ModelVersion: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', example: 'llama3.2:3b' },
+          size: { type: 'string', example: '2.0GB' },
+          context: { type: 'string', example: '128K' },
+          input: { type: 'string', example: 'Text' },
+          updated: { type: 'string', example: '1 year ago' },
+          isLatest: { type: 'boolean' },
+          url: { type: 'string' },
+          sizeBytes: { type: 'integer' },
+          contextTokens: { type: 'integer' },
+          updatedAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      Model: {
+        type: 'object',
+        description: `Fields: ${MODEL_FIELDS.join(', ')}`,
+        properties: {
+          name: { type: 'string', example: 'llama3.2' },
+          url: { type: 'string' },
+          description: { type: 'string' },
+          capabilities: { type: 'array', items: { type: 'string' } },
+          pulls: { type: 'string', example: '20.5M' },
+          tags: { type: 'string', example: '63' },
+          updated: { type: 'string', example: '1 year ago' },
+          versions: { type: 'array', items: { $ref: '#/components/schemas/ModelVersion' } },
+          pullCount: { type: 'integer' },
+          tagCount: { type: 'integer' },
+          updatedAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      ModelPage: {
+        type: 'object',
+        required: ['models', 'total', 'nextCursor'],
+        properties: {
+          models: { type: 'array', items: { $ref: '#/components/schemas/Model' } },
+          total: { type: 'integer', description: 'Models matching the filters, across all pages' },
+          nextCursor: { type: 'string', nullable: true, description: 'null on the last page' },
+          lastUpdated: { type: 'string', format: 'date-time' },
+          status: { type: 'string', enum: ['ready', 'pending'] }
+        }
+      }
+    }
+  }
+};
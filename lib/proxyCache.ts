@@ -0,0 +1,45 @@
+// In-process cache of upstream pages fetched through /api/proxy
+
+export interface CachedResponse {
+  body: string;
+  contentType: string;
+  // Validators from the upstream response, used for conditional revalidation
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number;
+}
+
+export interface ResponseCache {
+  get(key: string): CachedResponse | undefined;
+  set(key: string, entry: CachedResponse): void;
+  // True while the entry can be served without asking upstream
+  isFresh(entry: CachedResponse, now?: number): boolean;
+}
+
+// Entries past their TTL are kept (until evicted) so they can be revalidated with a 304
+export function createResponseCache(ttlMs: number, maxEntries: number): ResponseCache {
+  // Map iteration order doubles as least-recently-used order
+  const entries = new Map<string, CachedResponse>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    isFresh(entry, now = Date.now()) {
+      return now - entry.fetchedAt < ttlMs;
+    }
+  };
+}
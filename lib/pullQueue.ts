@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { pullModel } from './ollamaClient';
+import { PullEvent, PullJob } from './types';
+
+// Pulls run one at a time, in the order they were queued, on the configured Ollama server
+
+// Finished jobs kept so clients can show their outcome
+const MAX_FINISHED_JOBS = 20;
+
+// Progress lines arrive many times a second; forward at most one per job per interval
+const PROGRESS_INTERVAL_MS = 250;
+
+const jobs: PullJob[] = [];
+const controllers = new Map<string, AbortController>();
+let processing = false;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const isActive = (job: PullJob) => job.status === 'queued' || job.status === 'pulling';
+
+// Apply changes to a job and notify subscribers
+function update(job: PullJob, changes: Partial<PullJob>): void {
+  Object.assign(job, changes);
+  emitter.emit('event', { type: 'job', job: { ...job } } satisfies PullEvent);
+}
+
+// Drop the oldest finished jobs beyond the limit
+function pruneFinished(): void {
+  const finished = jobs.filter(job => !isActive(job));
+  finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach(job => {
+    jobs.splice(jobs.indexOf(job), 1);
+  });
+}
+
+async function runJob(job: PullJob): Promise<void> {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  update(job, { status: 'pulling', detail: 'starting' });
+  console.log(`⬇️ [PULL] Pulling ${job.model}`);
+
+  let lastEmit = 0;
+  try {
+    await pullModel(job.model, progress => {
+      const now = Date.now();
+      const statusChanged = progress.status !== job.detail;
+      if (!statusChanged && now - lastEmit < PROGRESS_INTERVAL_MS) {
+        Object.assign(job, { completed: progress.completed, total: progress.total });
+        return;
+      }
+      lastEmit = now;
+      update(job, { detail: progress.status, completed: progress.completed, total: progress.total });
+    }, controller.signal);
+
+    update(job, { status: 'done', detail: 'success' });
+    console.log(`✅ [PULL] Pulled ${job.model}`);
+  } catch (error: any) {
+    if (controller.signal.aborted) {
+      update(job, { status: 'cancelled' });
+      console.log(`🛑 [PULL] Cancelled ${job.model}`);
+    } else {
+      update(job, { status: 'failed', error: error.message });
+      console.error(`❌ [PULL] Failed to pull ${job.model}:`, error.message);
+    }
+  } finally {
+    controllers.delete(job.id);
+  }
+}
+
+// Work through queued jobs until none are left
+async function processQueue(): Promise<void> {
+  if (processing) return;
+  processing = true;
+  try {
+    for (let job = jobs.find(j => j.status === 'queued'); job; job = jobs.find(j => j.status === 'queued')) {
+      await runJob(job);
+    }
+  } finally {
+    processing = false;
+    pruneFinished();
+  }
+}
+
+export const pullQueue = {
+  // Queue a pull; a model that is already queued or pulling returns the existing job
+  enqueue(model: string): PullJob {
+    const existing = jobs.find(job => job.model === model && isActive(job));
+    if (existing) return { ...existing };
+
+    const job: PullJob = {
+      id: crypto.randomUUID(),
+      model,
+      status: 'queued',
+      createdAt: new Date().toISOString()
+    };
+    jobs.push(job);
+    update(job, {});
+    processQueue();
+    return { ...job };
+  },
+
+  // Remove a queued job or abort a running one; false if the job is unknown or finished
+  cancel(id: string): boolean {
+    const job = jobs.find(j => j.id === id);
+    if (!job || !isActive(job)) return false;
+
+    if (job.status === 'queued') {
+      update(job, { status: 'cancelled' });
+    } else {
+      controllers.get(id)?.abort();
+    }
+    return true;
+  },
+
+  getJobs(): PullJob[] {
+    return jobs.map(job => ({ ...job }));
+  },
+
+  // Returns a function that removes the listener
+  subscribe(listener: (event: PullEvent) => void): () => void {
+    emitter.on('event', listener);
+    return () => {
+      emitter.off('event', listener);
+    };
+  }
+};
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuery, matchesQuery, QuerySyntaxError } from './query';
+import { ModelData, ModelVersion } from './types';
+
+const NOW = Date.parse('2025-06-01T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+const version = (name: string, size: string, context: string, input: string = 'Text'): ModelVersion =>
+  ({ name, size, context, input, updated: '', url: '' });
+
+const MODELS: ModelData[] = [
+  {
+    name: 'llama3.2',
+    url: '',
+    description: 'Small models for code completion and chat',
+    capabilities: ['tools'],
+    pulls: '20.5M',
+    tags: '63',
+    updated: '',
+    updatedAt: new Date(NOW - 10 * DAY).toISOString(),
+    versions: [version('llama3.2:1b', '1.3GB', '128K'), version('llama3.2:3b-instruct-q4_K_M', '2.0GB', '128K')]
+  },
+  {
+    name: 'llava',
+    url: '',
+    description: 'Large language and vision assistant',
+    capabilities: ['vision'],
+    pulls: '9.8M',
+    tags: '98',
+    updated: '',
+    updatedAt: new Date(NOW - 90 * DAY).toISOString(),
+    versions: [version('llava:7b', '4.7GB', '32K', 'Text, Image'), version('llava:34b', '20GB', '4K', 'Text, Image')]
+  },
+  {
+    name: 'qwen3',
+    url: '',
+    description: 'Dense and mixture-of-experts models',
+    capabilities: ['tools', 'thinking'],
+    pulls: '1.1M',
+    tags: '35',
+    updated: '',
+    updatedAt: new Date(NOW - 2 * DAY).toISOString(),
+    versions: [version('qwen3:14b', '9.3GB', '40K'), version('qwen3:30b-a3b-fp16', '61GB', '40K')]
+  }
+];
+
+// Names of the models matching a query
+const search = (query: string) => MODELS.filter(model => matchesQuery(model, parseQuery(query)!, NOW)).map(model => model.name);
+
+// The syntax error a query raises
+const syntaxError = (query: string): QuerySyntaxError => {
+  try {
+    parseQuery(query);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error;
+    throw error;
+  }
+  throw new Error(`"${query}" parsed without an error`);
+};
+
+describe('parseQuery', () => {
+  it('returns null for an empty query', () => {
+    expect(parseQuery('')).toBeNull();
+    expect(parseQuery('   ')).toBeNull();
+  });
+
+  it('reads field comparisons with units', () => {
+    expect(parseQuery('size<8GB')).toEqual({ type: 'compare', field: 'size', op: '<', value: 8e9 });
+    expect(parseQuery('ctx>=128k')).toEqual({ type: 'compare', field: 'ctx', op: '>=', value: 131072 });
+    expect(parseQuery('params>=7b')).toEqual({ type: 'compare', field: 'params', op: '>=', value: 7e9 });
+    expect(parseQuery('pulls>1M')).toEqual({ type: 'compare', field: 'pulls', op: '>', value: 1e6 });
+  });
+
+  it('reads bare sizes as GB and bare parameter counts as billions', () => {
+    expect(parseQuery('size<=8')).toEqual({ type: 'compare', field: 'size', op: '<=', value: 8e9 });
+    expect(parseQuery('params:14')).toEqual({ type: 'compare', field: 'params', op: '=', value: 14e9 });
+  });
+
+  it('reads updated<30d as an age', () => {
+    expect(parseQuery('updated<30d')).toEqual({ type: 'age', op: '<', ms: 30 * DAY });
+  });
+
+  it('reads field aliases and != on text fields', () => {
+    expect(parseQuery('capability:Vision')).toEqual({ type: 'match', field: 'cap', exact: false, text: 'vision' });
+    expect(parseQuery('name!=llava')).toEqual({ type: 'not', child: { type: 'match', field: 'name', exact: true, text: 'llava' } });
+  });
+
+  it('binds NOT tighter than AND, and AND tighter than OR', () => {
+    expect(parseQuery('a b OR NOT c')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'and', children: [{ type: 'text', text: 'a' }, { type: 'text', text: 'b' }] },
+        { type: 'not', child: { type: 'text', text: 'c' } }
+      ]
+    });
+  });
+
+  it('reads -term as NOT', () => {
+    expect(parseQuery('-cap:vision')).toEqual({ type: 'not', child: { type: 'match', field: 'cap', exact: false, text: 'vision' } });
+  });
+
+  it('keeps a quoted phrase as one term, even with a colon', () => {
+    expect(parseQuery('"code completion"')).toEqual({ type: 'text', text: 'code completion' });
+    expect(parseQuery('"cap:vision"')).toEqual({ type: 'text', text: 'cap:vision' });
+  });
+});
+
+describe('matchesQuery', () => {
+  it('matches a model when one of its versions is in range', () => {
+    expect(search('size<2GB')).toEqual(['llama3.2']);
+    expect(search('size>50GB')).toEqual(['qwen3']);
+    expect(search('ctx>=128k')).toEqual(['llama3.2']);
+    expect(search('params>=7b params<=14b')).toEqual(['llava', 'qwen3']);
+  });
+
+  it('matches updated<30d against the age of the model', () => {
+    expect(search('updated<30d')).toEqual(['llama3.2', 'qwen3']);
+    expect(search('updated>4w')).toEqual(['llava']);
+    expect(search('updated>2025-05-30')).toEqual(['qwen3']);
+  });
+
+  it('matches text fields', () => {
+    expect(search('input:image')).toEqual(['llava']);
+    expect(search('quant:q4_K_M')).toEqual(['llama3.2']);
+    expect(search('cap=tools')).toEqual(['llama3.2', 'qwen3']);
+  });
+
+  it('combines terms with AND, OR, NOT and parentheses', () => {
+    expect(search('cap:tools NOT cap:thinking')).toEqual(['llama3.2']);
+    expect(search('cap:tools -cap:thinking')).toEqual(['llama3.2']);
+    expect(search('llava OR qwen3 size<10GB')).toEqual(['llava', 'qwen3']);
+    expect(search('(llava OR qwen3) size>50GB')).toEqual(['qwen3']);
+    expect(search('NOT (llava OR qwen3)')).toEqual(['llama3.2']);
+  });
+
+  it('matches free text and quoted phrases against names, descriptions and capabilities', () => {
+    expect(search('"code completion"')).toEqual(['llama3.2']);
+    expect(search('"completion code"')).toEqual([]);
+    expect(search('VISION')).toEqual(['llava']);
+  });
+});
+
+describe('syntax errors', () => {
+  it('reports unknown fields with the list of known ones', () => {
+    const error = syntaxError('cap:tools colour:red');
+    expect(error.message).toMatch(/^Unknown field "colour" at position 11\. Known fields: name, desc, /);
+    expect(error.position).toBe(10);
+  });
+
+  it('reports invalid and missing values at the value position', () => {
+    expect(syntaxError('size<huge')).toMatchObject({
+      message: 'Invalid value "huge" for "size" at position 6: expected a size like 8GB or 500MB',
+      position: 5
+    });
+    expect(syntaxError('ctx>=')).toMatchObject({ message: 'Missing value after "ctx>=" at position 6', position: 5 });
+  });
+
+  it('reports comparisons on text fields', () => {
+    expect(syntaxError('cap>vision').message).toBe('Field "cap" only supports ":", "=" and "!=" (position 1)');
+  });
+
+  it('reports dangling operators, parentheses and quotes', () => {
+    expect(syntaxError('llama OR')).toMatchObject({ message: 'Expected a search term after OR at position 7', position: 6 });
+    expect(syntaxError('NOT')).toMatchObject({ message: 'Expected a search term after NOT at position 1', position: 0 });
+    expect(syntaxError('(llama')).toMatchObject({ message: 'Missing closing parenthesis for "(" at position 1', position: 0 });
+    expect(syntaxError('()').message).toBe('Empty parentheses at position 1');
+    expect(syntaxError('llama)').message).toMatch(/at position 6$/);
+    expect(syntaxError('"code completion')).toMatchObject({ message: 'Unterminated quote at position 1', position: 0 });
+  });
+});
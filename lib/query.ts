@@ -0,0 +1,380 @@
+import { ModelData } from './types';
+import {
+  parseSizeBytes,
+  parseContextTokens,
+  parseCount,
+  getSizeBytes,
+  getContextTokens,
+  getPullCount,
+  getTagCount,
+  getUpdatedAt
+} from './units';
+import { parseTagInfo, getTagInfo } from './tagInfo';
+
+// Search query language, e.g.
+//   cap:vision size<8GB ctx>=128k pulls>1M input:image updated<30d name:llama
+//   quant:q4_K_M params>=7b params<=14b
+//   (llama OR qwen) NOT cap:embedding "code completion"
+// Terms separated by spaces are ANDed; AND / OR / NOT (upper case), "-term"
+// and parentheses are supported. Anything without a field is free text.
+
+export type TextField = 'name' | 'desc' | 'cap' | 'input' | 'quant' | 'variant';
+export type NumericField = 'size' | 'ctx' | 'params' | 'pulls' | 'tags' | 'versions' | 'updated';
+export type CompareOp = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; text: string }
+  | { type: 'match'; field: TextField; exact: boolean; text: string }
+  | { type: 'compare'; field: NumericField; op: CompareOp; value: number }
+  // updated<30d: compares the age of the model rather than its timestamp
+  | { type: 'age'; op: CompareOp; ms: number };
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+// Field names and their aliases
+const TEXT_FIELDS: Record<string, TextField> = {
+  name: 'name',
+  desc: 'desc',
+  description: 'desc',
+  cap: 'cap',
+  capability: 'cap',
+  input: 'input',
+  quant: 'quant',
+  variant: 'variant'
+};
+
+const NUMERIC_FIELDS: Record<string, NumericField> = {
+  size: 'size',
+  ctx: 'ctx',
+  context: 'ctx',
+  params: 'params',
+  pulls: 'pulls',
+  tags: 'tags',
+  versions: 'versions',
+  updated: 'updated'
+};
+
+const FIELD_NAMES = Object.keys({ ...TEXT_FIELDS, ...NUMERIC_FIELDS });
+
+const DURATION_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  m: 30 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000
+};
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; position: number }
+  | { kind: 'term'; raw: string; quoted: boolean; position: number };
+
+// Split the input into parentheses, keywords and terms
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // Read a quoted string starting at the opening quote
+  const readQuoted = (start: number): { text: string; end: number } => {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) {
+      throw new QuerySyntaxError(`Unterminated quote at position ${start + 1}`, start);
+    }
+    return { text: input.slice(start + 1, close), end: close + 1 };
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', position: i });
+      i++;
+    } else if (char === '"') {
+      const { text, end } = readQuoted(i);
+      tokens.push({ kind: 'term', raw: text, quoted: true, position: i });
+      i = end;
+    } else {
+      const start = i;
+      let raw = '';
+      while (i < input.length && !/[\s()]/.test(input[i])) {
+        // field:"quoted value"
+        if (input[i] === '"') {
+          const { text, end } = readQuoted(i);
+          raw += `"${text}"`;
+          i = end;
+        } else {
+          raw += input[i++];
+        }
+      }
+
+      if (raw === 'AND' || raw === 'OR' || raw === 'NOT') {
+        tokens.push({ kind: raw.toLowerCase() as 'and' | 'or' | 'not', position: start });
+      } else if (raw.startsWith('-') && raw.length > 1) {
+        tokens.push({ kind: 'not', position: start });
+        tokens.push({ kind: 'term', raw: raw.slice(1), quoted: false, position: start + 1 });
+      } else {
+        tokens.push({ kind: 'term', raw, quoted: false, position: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function parseNumericValue(field: NumericField, text: string): number | undefined {
+  switch (field) {
+    case 'size':
+      // Bare numbers are read as GB
+      return /^\d+(\.\d+)?$/.test(text) ? parseSizeBytes(`${text}GB`) : parseSizeBytes(text);
+    case 'ctx':
+      return parseContextTokens(text);
+    case 'params':
+      // Bare numbers are read as billions
+      return parseTagInfo(/^\d+(\.\d+)?$/.test(text) ? `${text}b` : text).parameterCount;
+    case 'pulls':
+    case 'tags':
+    case 'versions':
+      return parseCount(text);
+    case 'updated': {
+      const time = Date.parse(text);
+      return isNaN(time) ? undefined : time;
+    }
+  }
+}
+
+const VALUE_EXAMPLES: Record<NumericField, string> = {
+  size: 'a size like 8GB or 500MB',
+  ctx: 'a context length like 128k',
+  params: 'a parameter count like 7b or 500m',
+  pulls: 'a count like 1M or 500K',
+  tags: 'a number',
+  versions: 'a number',
+  updated: 'a duration like 30d, 2w, 6m or a date like 2025-01-31'
+};
+
+// Turn a single term such as size<8GB into a node
+function parseTerm(token: Extract<Token, { kind: 'term' }>): QueryNode {
+  const match = token.quoted ? null : token.raw.match(/^([a-zA-Z]+)(<=|>=|!=|:|<|>|=)(.*)$/);
+
+  if (!match) {
+    return { type: 'text', text: token.raw.toLowerCase() };
+  }
+
+  const [, fieldName, op, rawValue] = match;
+  const fieldKey = fieldName.toLowerCase();
+  const value = rawValue.replace(/^"(.*)"$/, '$1');
+  const valuePosition = token.position + fieldName.length + op.length;
+
+  if (!(fieldKey in TEXT_FIELDS) && !(fieldKey in NUMERIC_FIELDS)) {
+    throw new QuerySyntaxError(
+      `Unknown field "${fieldName}" at position ${token.position + 1}. Known fields: ${FIELD_NAMES.join(', ')}`,
+      token.position
+    );
+  }
+
+  if (!value) {
+    throw new QuerySyntaxError(`Missing value after "${fieldName}${op}" at position ${valuePosition + 1}`, valuePosition);
+  }
+
+  if (fieldKey in TEXT_FIELDS) {
+    if (op !== ':' && op !== '=' && op !== '!=') {
+      throw new QuerySyntaxError(
+        `Field "${fieldName}" only supports ":", "=" and "!=" (position ${token.position + 1})`,
+        token.position
+      );
+    }
+    const node: QueryNode = { type: 'match', field: TEXT_FIELDS[fieldKey], exact: op !== ':', text: value.toLowerCase() };
+    return op === '!=' ? { type: 'not', child: node } : node;
+  }
+
+  const field = NUMERIC_FIELDS[fieldKey];
+  const compareOp: CompareOp = op === ':' ? '=' : op as CompareOp;
+
+  // updated<30d compares against the model's age
+  const duration = field === 'updated' ? value.toLowerCase().match(/^(\d+(?:\.\d+)?)([hdwmy])$/) : null;
+  if (duration) {
+    return { type: 'age', op: compareOp, ms: parseFloat(duration[1]) * DURATION_MS[duration[2]] };
+  }
+
+  const number = parseNumericValue(field, value);
+  if (number === undefined) {
+    throw new QuerySyntaxError(
+      `Invalid value "${value}" for "${fieldName}" at position ${valuePosition + 1}: expected ${VALUE_EXAMPLES[field]}`,
+      valuePosition
+    );
+  }
+
+  return { type: 'compare', field, op: compareOp, value: number };
+}
+
+// Parse a query string into a filter tree; returns null for an empty query
+export function parseQuery(input: string): QueryNode | null {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) return null;
+
+  let index = 0;
+  const peek = () => tokens[index];
+
+  const describe = (token: Token) =>
+    token.kind === 'term' ? `"${token.raw}"` : token.kind === 'lparen' ? '"("' : token.kind === 'rparen' ? '")"' : token.kind.toUpperCase();
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      const orToken = tokens[index++];
+      if (!peek() || peek().kind === 'rparen' || peek().kind === 'or') {
+        throw new QuerySyntaxError(`Expected a search term after OR at position ${orToken.position + 1}`, orToken.position);
+      }
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    while (peek() && peek().kind !== 'or' && peek().kind !== 'rparen') {
+      if (peek().kind === 'and') {
+        const andToken = tokens[index++];
+        if (!peek() || peek().kind === 'rparen' || peek().kind === 'or' || peek().kind === 'and') {
+          throw new QuerySyntaxError(`Expected a search term after AND at position ${andToken.position + 1}`, andToken.position);
+        }
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (token?.kind === 'not') {
+      index++;
+      if (!peek() || peek().kind === 'rparen' || peek().kind === 'or' || peek().kind === 'and') {
+        throw new QuerySyntaxError(`Expected a search term after NOT at position ${token.position + 1}`, token.position);
+      }
+      return { type: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[index++];
+
+    if (!token) {
+      const last = tokens[tokens.length - 1];
+      throw new QuerySyntaxError('Unexpected end of query', last.position);
+    }
+
+    if (token.kind === 'lparen') {
+      if (peek()?.kind === 'rparen') {
+        throw new QuerySyntaxError(`Empty parentheses at position ${token.position + 1}`, token.position);
+      }
+      const node = parseOr();
+      if (peek()?.kind !== 'rparen') {
+        throw new QuerySyntaxError(`Missing closing parenthesis for "(" at position ${token.position + 1}`, token.position);
+      }
+      index++;
+      return node;
+    }
+
+    if (token.kind === 'term') {
+      return parseTerm(token);
+    }
+
+    throw new QuerySyntaxError(`Unexpected ${describe(token)} at position ${token.position + 1}`, token.position);
+  };
+
+  const root = parseOr();
+  if (index < tokens.length) {
+    const token = tokens[index];
+    throw new QuerySyntaxError(`Unexpected ${describe(token)} at position ${token.position + 1}`, token.position);
+  }
+  return root;
+}
+
+function compare(actual: number, op: CompareOp, expected: number): boolean {
+  switch (op) {
+    case '=': return actual === expected;
+    case '!=': return actual !== expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+  }
+}
+
+// Values a numeric field can take for a model (several for per-version fields)
+function getNumericValues(model: ModelData, field: NumericField): number[] {
+  const defined = (values: (number | undefined)[]) => values.filter((v): v is number => v !== undefined);
+
+  switch (field) {
+    case 'size':
+      return defined(model.versions.map(getSizeBytes));
+    case 'ctx':
+      return defined(model.versions.map(getContextTokens));
+    case 'params':
+      return defined(model.versions.map(v => getTagInfo(v).parameterCount));
+    case 'pulls':
+      return defined([getPullCount(model)]);
+    case 'tags':
+      return defined([getTagCount(model)]);
+    case 'versions':
+      return [model.versions.length];
+    case 'updated': {
+      const updatedAt = getUpdatedAt(model);
+      return updatedAt ? [Date.parse(updatedAt)] : [];
+    }
+  }
+}
+
+function matchesText(model: ModelData, field: TextField, text: string, exact: boolean): boolean {
+  const test = (value: string) => exact ? value.toLowerCase() === text : value.toLowerCase().includes(text);
+
+  switch (field) {
+    case 'name':
+      return test(model.name);
+    case 'desc':
+      return test(model.description);
+    case 'cap':
+      return model.capabilities.some(test);
+    case 'input':
+      // Inputs look like "Text, Image"
+      return model.versions.some(v => v.input.split(',').some(input => test(input.trim())) || (!exact && test(v.input)));
+    case 'quant':
+      return model.versions.some(v => test(getTagInfo(v).quantization || ''));
+    case 'variant':
+      return model.versions.some(v => test(getTagInfo(v).variant || ''));
+  }
+}
+
+// Evaluate a parsed query against a model
+export function matchesQuery(model: ModelData, node: QueryNode, now: number = Date.now()): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every(child => matchesQuery(model, child, now));
+    case 'or':
+      return node.children.some(child => matchesQuery(model, child, now));
+    case 'not':
+      return !matchesQuery(model, node.child, now);
+    case 'text':
+      return (
+        model.name.toLowerCase().includes(node.text) ||
+        model.description.toLowerCase().includes(node.text) ||
+        model.capabilities.some(cap => cap.toLowerCase().includes(node.text))
+      );
+    case 'match':
+      return matchesText(model, node.field, node.text, node.exact);
+    case 'compare':
+      return getNumericValues(model, node.field).some(value => compare(value, node.op, node.value));
+    case 'age':
+      return getNumericValues(model, 'updated').some(time => compare(now - time, node.op, node.ms));
+  }
+}
@@ -0,0 +1,22 @@
+import { EventEmitter } from 'events';
+import { RefreshEvent } from './types';
+
+// In-process pub/sub for refresh progress, consumed by the SSE route
+const emitter = new EventEmitter();
+
+// One listener per open browser tab
+emitter.setMaxListeners(0);
+
+export const refreshEvents = {
+  emit(event: RefreshEvent): void {
+    emitter.emit('event', event);
+  },
+
+  // Returns a function that removes the listener
+  subscribe(listener: (event: RefreshEvent) => void): () => void {
+    emitter.on('event', listener);
+    return () => {
+      emitter.off('event', listener);
+    };
+  }
+};
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { parseRetryAfter, getBackoffDelay, isRetryable, withRetry, createRateLimiter, HttpError, RetryError, RetryOptions } from './retry';
+
+const NOW = Date.parse('2025-06-01T12:00:00Z');
+
+// Short delays so retries finish quickly
+const FAST: RetryOptions = { retries: 2, baseDelayMs: 1, maxDelayMs: 20 };
+
+// A function failing with the given errors in turn, then returning 'ok'
+function failing(...errors: Error[]) {
+  let calls = 0;
+  const fn = async () => {
+    calls++;
+    const error = errors.shift();
+    if (error) throw error;
+    return 'ok';
+  };
+  return { fn, calls: () => calls };
+}
+
+describe('parseRetryAfter', () => {
+  it('reads seconds', () => {
+    expect(parseRetryAfter('120', NOW)).toBe(120_000);
+    expect(parseRetryAfter('0', NOW)).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    expect(parseRetryAfter('Sun, 01 Jun 2025 12:00:30 GMT', NOW)).toBe(30_000);
+    expect(parseRetryAfter('Sun, 01 Jun 2025 11:00:00 GMT', NOW)).toBe(0);
+  });
+
+  it('ignores a missing or unreadable header', () => {
+    expect(parseRetryAfter(null, NOW)).toBeUndefined();
+    expect(parseRetryAfter('', NOW)).toBeUndefined();
+    expect(parseRetryAfter('soon', NOW)).toBeUndefined();
+  });
+});
+
+describe('getBackoffDelay', () => {
+  const options: RetryOptions = { retries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  it('doubles per attempt, jittered between half and all of the delay', () => {
+    expect(getBackoffDelay(0, options, () => 0)).toBe(50);
+    expect(getBackoffDelay(0, options, () => 1)).toBe(100);
+    expect(getBackoffDelay(2, options, () => 0)).toBe(200);
+    expect(getBackoffDelay(2, options, () => 0.5)).toBe(300);
+  });
+
+  it('caps the delay at maxDelayMs', () => {
+    expect(getBackoffDelay(10, options, () => 1)).toBe(1000);
+    expect(getBackoffDelay(10, options, () => 0)).toBe(500);
+  });
+});
+
+describe('isRetryable', () => {
+  it('retries timeouts, rate limits, server errors and network failures', () => {
+    expect(isRetryable(new HttpError(408, 'Request Timeout'))).toBe(true);
+    expect(isRetryable(new HttpError(429, 'Too Many Requests'))).toBe(true);
+    expect(isRetryable(new HttpError(503, 'Service Unavailable'))).toBe(true);
+    expect(isRetryable(new TypeError('fetch failed'))).toBe(true);
+  });
+
+  it('does not retry other client errors', () => {
+    expect(isRetryable(new HttpError(404, 'Not Found'))).toBe(false);
+    expect(isRetryable(new HttpError(403, 'Forbidden'))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries until the call succeeds', async () => {
+    const { fn, calls } = failing(new HttpError(500, ''), new TypeError('fetch failed'));
+    expect(await withRetry(fn, FAST)).toBe('ok');
+    expect(calls()).toBe(3);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const { fn, calls } = failing(new HttpError(500, ''), new HttpError(502, ''), new HttpError(503, ''));
+    const result = withRetry(fn, FAST);
+
+    await expect(result).rejects.toBeInstanceOf(RetryError);
+    await expect(result).rejects.toMatchObject({ attempts: 3, message: 'HTTP 503', lastError: { status: 503 } });
+    expect(calls()).toBe(3);
+  });
+
+  it('does not retry a non-retryable error', async () => {
+    const { fn, calls } = failing(new HttpError(404, 'Not Found'));
+    await expect(withRetry(fn, FAST)).rejects.toMatchObject({ attempts: 1 });
+    expect(calls()).toBe(1);
+  });
+
+  it('waits for Retry-After instead of the backoff, capped at maxDelayMs', async () => {
+    const { fn } = failing(new HttpError(429, '', 5), new HttpError(429, '', 60_000));
+    const delays: number[] = [];
+    await withRetry(fn, { retries: 2, baseDelayMs: 10_000, maxDelayMs: 20 }, (_error, _attempt, delayMs) => delays.push(delayMs));
+
+    expect(delays).toEqual([5, 20]);
+  });
+
+  it('rethrows the abort error when the signal aborts', async () => {
+    const controller = new AbortController();
+    const aborted = new Error('stopped');
+    const { fn, calls } = failing(new HttpError(500, ''), new HttpError(500, ''));
+
+    const result = withRetry(fn, { retries: 5, baseDelayMs: 10_000, maxDelayMs: 10_000 }, () => controller.abort(aborted), controller.signal);
+
+    await expect(result).rejects.toBe(aborted);
+    expect(calls()).toBe(1);
+  });
+
+  it('rethrows the error of a call that failed after the abort', async () => {
+    const controller = new AbortController();
+    const error = new DOMException('The operation was aborted', 'AbortError');
+    const fn = async () => {
+      controller.abort();
+      throw error;
+    };
+
+    await expect(withRetry(fn, FAST, undefined, controller.signal)).rejects.toBe(error);
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('spaces requests by 1 / requestsPerSecond', async () => {
+    const limiter = createRateLimiter(50);
+    const start = Date.now();
+    await Promise.all([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+
+    // The third request starts two intervals (40ms) after the first
+    expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+  });
+});
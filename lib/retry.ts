@@ -0,0 +1,136 @@
+// Retries with exponential backoff, and a shared request rate limit, for scraping
+
+export interface RetryOptions {
+  // Retries after the first attempt
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000
+};
+
+// Non-2xx response; retryAfterMs comes from the Retry-After header
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    statusText: string,
+    public retryAfterMs?: number
+  ) {
+    super(`HTTP ${status}${statusText ? `: ${statusText}` : ''}`);
+    this.name = 'HttpError';
+  }
+}
+
+// Thrown once every attempt has failed; wraps the last error
+export class RetryError extends Error {
+  constructor(
+    public lastError: Error,
+    public attempts: number
+  ) {
+    super(lastError.message);
+    this.name = 'RetryError';
+  }
+}
+
+// Sleep that ends early, rejecting, when the signal aborts
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Build an HttpError from a failed fetch Response
+export function toHttpError(response: Response): HttpError {
+  return new HttpError(response.status, response.statusText, parseRetryAfter(response.headers.get('retry-after')));
+}
+
+// Rate limiting, timeouts and server errors are worth retrying; other 4xx are not.
+// Errors without a status are network failures and are retried too.
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+// Exponential backoff with jitter: a random delay between half and all of base * 2^attempt
+export function getBackoffDelay(attempt: number, options: RetryOptions, random: () => number = Math.random): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(exponential / 2 + random() * exponential / 2);
+}
+
+// Run fn until it succeeds, a non-retryable error occurs or retries run out.
+// A Retry-After delay from the server takes precedence over the backoff.
+// Aborting the signal stops retrying and rethrows the abort error as is.
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  onRetry?: (error: Error, attempt: number, delayMs: number) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (caught) {
+      if (signal?.aborted) throw caught;
+      const error = caught instanceof Error ? caught : new Error(String(caught));
+
+      if (attempt >= options.retries || !isRetryable(error)) {
+        throw new RetryError(error, attempt + 1);
+      }
+
+      const retryAfter = error instanceof HttpError ? error.retryAfterMs : undefined;
+      const delayMs = retryAfter !== undefined
+        ? Math.min(retryAfter, options.maxDelayMs)
+        : getBackoffDelay(attempt, options);
+
+      onRetry?.(error, attempt + 1, delayMs);
+      await delay(delayMs, signal);
+    }
+  }
+}
+
+export interface RateLimiter {
+  // Resolves when the caller may send its next request
+  acquire(): Promise<void>;
+}
+
+// Spaces requests evenly so at most requestsPerSecond start each second
+export function createRateLimiter(requestsPerSecond: number): RateLimiter {
+  const intervalMs = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+  let nextSlot = 0;
+
+  return {
+    async acquire() {
+      const now = Date.now();
+      const slot = Math.max(now, nextSlot);
+      nextSlot = slot + intervalMs;
+      if (slot > now) await delay(slot - now);
+    }
+  };
+}
@@ -0,0 +1,122 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RefreshEvent, ModelData } from './types';
+
+// Stand-in for ollama.com: the search page comes from `searchHtml`, model pages from the fixture
+const pages = vi.hoisted(() => ({ searchHtml: '', onModelPage: undefined as (() => void) | undefined }));
+
+vi.mock('./clientScraper', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./clientScraper')>(),
+  fetchFromOllama: async (pagePath: string) => {
+    if (pagePath === '/search') return pages.searchHtml;
+    pages.onModelPage?.();
+    return MODEL_HTML;
+  }
+}));
+
+import { scrapeJob } from './scrapeJob';
+import { dataCache } from './dataCache';
+import { refreshEvents } from './refreshEvents';
+
+const fixture = (name: string) => fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf-8');
+
+const SEARCH_HTML = fixture('search.html');
+const MODEL_HTML = fixture('model-llama3.2.html');
+const EMPTY_SEARCH_HTML = '<html><body><ul></ul></body></html>';
+
+const model = (name: string): ModelData => ({
+  name,
+  url: `https://ollama.com/library/${name}`,
+  description: '',
+  capabilities: [],
+  pulls: '1M',
+  tags: '1',
+  updated: '1 week ago',
+  versions: [{ name: `${name}:latest`, size: '1GB', context: '8K', input: 'Text', updated: '1 week ago', url: '' }]
+});
+
+// Run a refresh and resolve with the event that ended it
+function runRefresh(start: () => boolean): Promise<RefreshEvent> {
+  return new Promise(resolve => {
+    const unsubscribe = refreshEvents.subscribe(event => {
+      if (event.type === 'complete' || event.type === 'failed' || event.type === 'stopped') {
+        unsubscribe();
+        resolve(event);
+      }
+    });
+    expect(start()).toBe(true);
+  });
+}
+
+beforeEach(() => {
+  process.env.SCRAPE_RETRIES = '0';
+  process.env.SCRAPE_REQUESTS_PER_SECOND = '1000';
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  pages.onModelPage = undefined;
+  dataCache.set({ models: ['alpha', 'bravo'].map(model), status: 'ready' });
+});
+
+describe('scrapeJob', () => {
+  it('stores the scraped models', async () => {
+    pages.searchHtml = SEARCH_HTML;
+    const event = await runRefresh(() => scrapeJob.start());
+
+    expect(event).toMatchObject({ type: 'complete', modelCount: 3 });
+    expect(dataCache.get()!.models.map(m => m.name)).toEqual(['llama3.2', 'llava', 'nomic-embed-text']);
+  });
+
+  it('keeps the cached models when the scrape finds none', async () => {
+    pages.searchHtml = EMPTY_SEARCH_HTML;
+    const event = await runRefresh(() => scrapeJob.start());
+
+    expect(event).toMatchObject({ type: 'failed', message: expect.stringContaining('No models found') });
+    expect(dataCache.get()).toMatchObject({ status: 'ready' });
+    expect(dataCache.get()!.models.map(m => m.name)).toEqual(['alpha', 'bravo']);
+  });
+
+  it('keeps the rest of the cached catalog after a limited run', async () => {
+    pages.searchHtml = SEARCH_HTML;
+    const event = await runRefresh(() => scrapeJob.start(1));
+
+    expect(event).toMatchObject({ type: 'complete', modelCount: 3 });
+    expect(dataCache.get()!.models.map(m => m.name)).toEqual(['llama3.2', 'alpha', 'bravo']);
+    expect(dataCache.get()!.limit).toBeUndefined();
+  });
+
+  it('records the limit when there was no cached catalog', async () => {
+    dataCache.clear();
+    pages.searchHtml = SEARCH_HTML;
+    await runRefresh(() => scrapeJob.start(1));
+
+    expect(dataCache.get()).toMatchObject({ limit: 1, models: [expect.objectContaining({ name: 'llama3.2' })] });
+  });
+
+  describe('with a large cached catalog', () => {
+    const large = Array.from({ length: 60 }, (_, i) => model(`model-${i}`));
+
+    beforeEach(() => {
+      dataCache.set({ models: large, status: 'ready' });
+    });
+
+    it('does not replace it with a much smaller scrape', async () => {
+      pages.searchHtml = SEARCH_HTML;
+      const event = await runRefresh(() => scrapeJob.start(Infinity, { full: true }));
+
+      expect(event).toMatchObject({ type: 'failed', message: 'Refusing to replace 60 cached models with 3' });
+      expect(dataCache.get()).toMatchObject({ status: 'ready', models: large });
+    });
+
+    it('does not save partial results that would shrink it', async () => {
+      pages.searchHtml = SEARCH_HTML;
+      pages.onModelPage = () => scrapeJob.cancel(true);
+      const event = await runRefresh(() => scrapeJob.start(Infinity, { full: true }));
+
+      expect(event).toMatchObject({ type: 'stopped' });
+      expect(dataCache.get()).toMatchObject({ status: 'ready', models: large });
+      expect(dataCache.get()!.logs.map(log => log.message)).toContainEqual(expect.stringContaining('Partial results not saved'));
+    });
+  });
+});
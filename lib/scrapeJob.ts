@@ -0,0 +1,247 @@
+import {
+  scrapeOllamaModels,
+  getCheckpointModels,
+  fetchFromOllama,
+  ScrapeOptions,
+  ScrapeCheckpoint,
+  ScrapeAbortedError
+} from './clientScraper';
+import { dataCache } from './dataCache';
+import { refreshEvents } from './refreshEvents';
+import { ModelData, RefreshState, ScrapingLog } from './types';
+
+export interface ScrapeJobOptions {
+  // Refetch every model's details instead of reusing unchanged cached ones
+  full?: boolean;
+}
+
+// The currently running scrape, if any (one at a time per server process)
+let runningJob: Promise<void> | null = null;
+let controller: AbortController | null = null;
+
+// How the running scrape was asked to stop
+let stopRequest: { mode: 'cancel' | 'pause'; savePartial: boolean } | null = null;
+
+// A paused run waiting to be resumed (kept in memory only)
+let pausedRun: { limit: number; options: ScrapeJobOptions; checkpoint: ScrapeCheckpoint | null } | null = null;
+
+// Optional numeric setting from the environment
+const envNumber = (name: string): number | undefined => {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) || value < 0 ? undefined : value;
+};
+
+// Retry and rate limit settings (SCRAPE_RETRIES, SCRAPE_REQUESTS_PER_SECOND, SCRAPE_CONCURRENCY)
+function getScrapeSettings(): Pick<ScrapeOptions, 'retry' | 'requestsPerSecond' | 'concurrency'> {
+  const retries = envNumber('SCRAPE_RETRIES');
+  const concurrency = envNumber('SCRAPE_CONCURRENCY');
+  return {
+    retry: retries !== undefined ? { retries: Math.floor(retries) } : undefined,
+    requestsPerSecond: envNumber('SCRAPE_REQUESTS_PER_SECOND'),
+    concurrency: concurrency !== undefined ? Math.max(1, Math.floor(concurrency)) : undefined
+  };
+}
+
+// Derive the log level from the emoji prefix the scraper uses
+function getLogType(message: string): ScrapingLog['type'] {
+  if (message.startsWith('❌')) return 'error';
+  if (message.startsWith('⚠️') || message.startsWith('⏸️') || message.startsWith('🛑')) return 'warning';
+  if (message.startsWith('✅') || message.startsWith('🎉')) return 'success';
+  return 'info';
+}
+
+// A limited run only covers the first `limit` listed models. Those replace their cached
+// versions and the rest of the cached catalog is kept, so a limited run never turns a
+// full catalog into a partial one.
+function getStoredCatalog(
+  models: ModelData[],
+  previous: ModelData[] | undefined,
+  previousLimit: number | undefined,
+  limit: number
+): { models: ModelData[]; limit?: number } {
+  if (limit === Infinity) return { models };
+
+  const scraped = new Set(models.map(model => model.name));
+  const kept = (previous || []).filter(model => !scraped.has(model.name));
+  return {
+    models: [...models, ...kept],
+    limit: kept.length > 0 ? previousLimit : limit
+  };
+}
+
+// Record a cancelled or paused run, optionally keeping what was fetched so far
+function handleStop(
+  checkpoint: ScrapeCheckpoint | null,
+  previous: ModelData[] | undefined,
+  previousLimit: number | undefined,
+  limit: number,
+  options: ScrapeJobOptions
+): void {
+  const { mode, savePartial } = stopRequest || { mode: 'cancel', savePartial: false };
+  const remaining = checkpoint ? `${checkpoint.pending.length} of ${checkpoint.models.length} models left` : 'before the model list was read';
+
+  if (mode === 'pause') {
+    pausedRun = { limit, options, checkpoint };
+    dataCache.addLog(`⏸️ Refresh paused, ${remaining}`);
+  } else {
+    dataCache.addLog(`🛑 Refresh cancelled, ${remaining}`);
+  }
+  console.log(`🛑 [SCRAPE] Refresh ${mode === 'pause' ? 'paused' : 'cancelled'}, ${remaining}`);
+
+  if (savePartial && checkpoint) {
+    const partial = getCheckpointModels(checkpoint, previous || []);
+    const refusal = dataCache.set({
+      ...getStoredCatalog(partial, previous, previousLimit, limit),
+      status: 'ready',
+      logs: dataCache.get()?.logs || [],
+      failures: checkpoint.failures
+    });
+    if (refusal) {
+      dataCache.addLog(`⚠️ Partial results not saved: ${refusal}`, 'warning');
+      console.warn(`⚠️ [SCRAPE] Partial results not saved: ${refusal}`);
+      dataCache.setReady();
+    }
+  } else {
+    dataCache.setReady();
+  }
+  refreshEvents.emit({ type: 'stopped', refreshState: mode === 'pause' ? 'paused' : 'idle' });
+}
+
+async function runScrape(limit: number, options: ScrapeJobOptions, checkpoint?: ScrapeCheckpoint): Promise<void> {
+  // Read the cached catalog before setPending: unchanged and failed models reuse it
+  const previous = dataCache.get()?.models;
+  const previousLimit = dataCache.get()?.limit;
+  dataCache.setPending();
+  controller = new AbortController();
+  refreshEvents.emit({ type: 'started' });
+
+  const onProgress = (message: string, current?: number, total?: number) => {
+    dataCache.addLog(message, getLogType(message));
+
+    if (current !== undefined && total !== undefined && total > 0) {
+      dataCache.updateProgress(
+        Math.round((current / total) * 100),
+        100,
+        message.includes(':') ? message.split(':')[1].trim() : message
+      );
+    }
+  };
+
+  try {
+    const { models, failures } = await scrapeOllamaModels(limit, onProgress, {
+      ...getScrapeSettings(),
+      fetchHtml: fetchFromOllama,
+      previous: previous && previous.length > 0 ? previous : undefined,
+      full: options.full,
+      signal: controller.signal,
+      resumeFrom: checkpoint
+    });
+
+    // An empty list means ollama.com's markup changed, not that every model is gone
+    if (models.length === 0) {
+      const message = 'No models found on ollama.com; the page markup may have changed. Keeping the cached models';
+      dataCache.addLog(`❌ ${message}`, 'error');
+      console.error(`❌ [SCRAPE-ERROR] ${message}`);
+      dataCache.setReady();
+      refreshEvents.emit({ type: 'failed', message });
+      return;
+    }
+
+    const catalog = getStoredCatalog(models, previous, previousLimit, limit);
+    const refusal = dataCache.set({
+      ...catalog,
+      status: 'ready',
+      logs: dataCache.get()?.logs || [],
+      failures
+    });
+    if (refusal) {
+      dataCache.addLog(`❌ ${refusal}`, 'error');
+      console.error(`❌ [SCRAPE-ERROR] ${refusal}`);
+      dataCache.setReady();
+      refreshEvents.emit({ type: 'failed', message: refusal });
+      return;
+    }
+    dataCache.addLog(`✅ Cached ${catalog.models.length} models`, 'success');
+
+    refreshEvents.emit({
+      type: 'complete',
+      modelCount: catalog.models.length,
+      lastUpdated: dataCache.get()!.lastUpdated.toISOString()
+    });
+    console.log(`✅ [SCRAPE] Cached ${catalog.models.length} models at ${new Date().toISOString()}`);
+  } catch (error: any) {
+    if (error instanceof ScrapeAbortedError) {
+      handleStop(error.checkpoint, previous, previousLimit, limit, options);
+      return;
+    }
+
+    // scrapeOllamaModels already logged the failure through onProgress
+    console.error('❌ [SCRAPE-ERROR] Scrape job failed:', error);
+    dataCache.setReady();
+    refreshEvents.emit({ type: 'failed', message: error.message });
+  }
+}
+
+function launch(limit: number, options: ScrapeJobOptions, checkpoint?: ScrapeCheckpoint): void {
+  runningJob = runScrape(limit, options, checkpoint).finally(() => {
+    runningJob = null;
+    controller = null;
+    stopRequest = null;
+  });
+}
+
+export const scrapeJob = {
+  // Start a scrape in the background; returns false if one is already running.
+  // A paused run is discarded.
+  start(limit: number = Infinity, options: ScrapeJobOptions = {}): boolean {
+    if (runningJob) return false;
+
+    pausedRun = null;
+    launch(limit, options);
+    return true;
+  },
+
+  // Abort the running scrape, or discard a paused one
+  cancel(savePartial: boolean = false): boolean {
+    if (runningJob && controller) {
+      stopRequest = { mode: 'cancel', savePartial };
+      controller.abort();
+      return true;
+    }
+    if (pausedRun) {
+      pausedRun = null;
+      dataCache.addLog('🛑 Paused refresh discarded');
+      refreshEvents.emit({ type: 'stopped', refreshState: 'idle' });
+      return true;
+    }
+    return false;
+  },
+
+  // Stop the running scrape and keep a checkpoint to resume from
+  pause(savePartial: boolean = false): boolean {
+    if (!runningJob || !controller) return false;
+
+    stopRequest = { mode: 'pause', savePartial };
+    controller.abort();
+    return true;
+  },
+
+  // Continue a paused run from the next unprocessed model
+  resume(): boolean {
+    if (runningJob || !pausedRun) return false;
+
+    const { limit, options, checkpoint } = pausedRun;
+    pausedRun = null;
+    launch(limit, options, checkpoint || undefined);
+    return true;
+  },
+
+  getState(): RefreshState {
+    if (runningJob) return 'running';
+    return pausedRun ? 'paused' : 'idle';
+  },
+
+  isRunning(): boolean {
+    return runningJob !== null;
+  }
+};
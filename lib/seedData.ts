@@ -0,0 +1,39 @@
+import fs from 'fs';
+import path from 'path';
+import { CachedData } from './types';
+import { validateCatalog } from './catalogSchema';
+
+// Static catalog used when there is no cached data yet (SEED_FILE, default public/ollama.json)
+export function getSeedFilePath(): string {
+  return path.resolve(process.env.SEED_FILE || path.join('public', 'ollama.json'));
+}
+
+// Load and validate the seed file; a missing or invalid file leaves the cache empty
+export function loadSeedData(): CachedData | null {
+  const filePath = getSeedFilePath();
+  if (!fs.existsSync(filePath)) return null;
+
+  try {
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    const { models, lastUpdated, errors } = validateCatalog(raw);
+
+    if (errors.length > 0) {
+      const details = errors.slice(0, 5).map(error => `${error.path}: ${error.message}`).join('; ');
+      console.error(`❌ [SEED-ERROR] Ignoring invalid seed file ${filePath}: ${details}`);
+      return null;
+    }
+
+    console.log(`🌱 [SEED] Loaded ${models.length} models from ${filePath}`);
+    return {
+      models,
+      // Fall back to the file date so the cache age reflects how old the data is
+      lastUpdated: lastUpdated || fs.statSync(filePath).mtime,
+      source: 'seed',
+      status: 'ready',
+      logs: []
+    };
+  } catch (error) {
+    console.error(`❌ [SEED-ERROR] Failed to read seed file ${filePath}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,129 @@
+import { ModelVersion } from './types';
+
+// Details encoded in a tag name such as "70b-instruct-q4_K_M", "8x7b" or "30b-a3b-fp16"
+export interface TagInfo {
+  // Total parameter count (experts x per-expert size for "8x7b")
+  parameterCount?: number;
+  // Active parameters for MoE tags such as "30b-a3b"
+  activeParameterCount?: number;
+  // Number of experts for "8x7b" style tags
+  expertCount?: number;
+  // Quantization label as written in the tag, e.g. "q4_K_M", "fp16"
+  quantization?: string;
+  // Bits per weight implied by the quantization (16 for fp16, 4 for q4_K_M)
+  precisionBits?: number;
+  // instruct, text, base, chat, code, ...
+  variant?: string;
+}
+
+export interface TagFilter {
+  quantization: string | null;
+  variant: string | null;
+  // Parameter range in absolute counts
+  minParameters?: number;
+  maxParameters?: number;
+}
+
+export const EMPTY_TAG_FILTER: TagFilter = {
+  quantization: null,
+  variant: null
+};
+
+const PARAMETER_UNITS: Record<string, number> = {
+  m: 1e6,
+  b: 1e9,
+  t: 1e12
+};
+
+// Variant spellings seen in tags and their canonical names
+const VARIANTS: Record<string, string> = {
+  instruct: 'instruct',
+  it: 'instruct',
+  text: 'text',
+  base: 'base',
+  pt: 'base',
+  chat: 'chat',
+  code: 'code',
+  vision: 'vision'
+};
+
+// Strip the "model:" prefix some version names carry
+export function getTagName(version: ModelVersion): string {
+  const index = version.name.indexOf(':');
+  return index === -1 ? version.name : version.name.slice(index + 1);
+}
+
+export function parseTagInfo(tag: string): TagInfo {
+  const info: TagInfo = {};
+
+  tag.split('-').forEach(part => {
+    const lower = part.toLowerCase();
+    let match: RegExpMatchArray | null;
+
+    if ((match = lower.match(/^(\d+)x(\d+(?:\.\d+)?)([mbt])$/))) {
+      // Mixture of experts: 8x7b
+      info.expertCount = parseInt(match[1], 10);
+      info.parameterCount = Math.round(info.expertCount * parseFloat(match[2]) * PARAMETER_UNITS[match[3]]);
+    } else if ((match = lower.match(/^e?(\d+(?:\.\d+)?)([mbt])$/))) {
+      // Plain (8b, 0.5b, 270m) or effective (e2b) parameter counts
+      if (info.parameterCount === undefined) {
+        info.parameterCount = Math.round(parseFloat(match[1]) * PARAMETER_UNITS[match[2]]);
+      }
+    } else if ((match = lower.match(/^a(\d+(?:\.\d+)?)([mbt])$/))) {
+      // Active parameters: 30b-a3b
+      info.activeParameterCount = Math.round(parseFloat(match[1]) * PARAMETER_UNITS[match[2]]);
+    } else if ((match = lower.match(/^i?q(\d)(_[0-9a-z]+)*$/))) {
+      info.quantization = part;
+      info.precisionBits = parseInt(match[1], 10);
+    } else if ((match = lower.match(/^(?:fp|bf)(\d+)$/))) {
+      info.quantization = lower;
+      info.precisionBits = parseInt(match[1], 10);
+    } else if (VARIANTS[lower]) {
+      info.variant = VARIANTS[lower];
+    }
+  });
+
+  return info;
+}
+
+// Use the scraped fields when present, otherwise parse the tag name
+export function getTagInfo(version: ModelVersion): TagInfo {
+  if (version.parameterCount !== undefined || version.quantization !== undefined || version.variant !== undefined) {
+    return {
+      parameterCount: version.parameterCount,
+      activeParameterCount: version.activeParameterCount,
+      expertCount: version.expertCount,
+      quantization: version.quantization,
+      precisionBits: version.precisionBits,
+      variant: version.variant
+    };
+  }
+  return parseTagInfo(getTagName(version));
+}
+
+// "8000000000" -> "8B", "270000000" -> "270M"
+export function formatParameterCount(count: number): string {
+  if (count >= 1e12) return `${parseFloat((count / 1e12).toFixed(1))}T`;
+  if (count >= 1e9) return `${parseFloat((count / 1e9).toFixed(1))}B`;
+  return `${Math.round(count / 1e6)}M`;
+}
+
+export function isTagFilterActive(filter: TagFilter): boolean {
+  return filter.quantization !== null || filter.variant !== null ||
+    filter.minParameters !== undefined || filter.maxParameters !== undefined;
+}
+
+export function matchesTagFilter(version: ModelVersion, filter: TagFilter): boolean {
+  const info = getTagInfo(version);
+
+  if (filter.quantization !== null && info.quantization?.toLowerCase() !== filter.quantization.toLowerCase()) return false;
+  if (filter.variant !== null && info.variant !== filter.variant) return false;
+
+  if (filter.minParameters !== undefined || filter.maxParameters !== undefined) {
+    if (info.parameterCount === undefined) return false;
+    if (filter.minParameters !== undefined && info.parameterCount < filter.minParameters) return false;
+    if (filter.maxParameters !== undefined && info.parameterCount > filter.maxParameters) return false;
+  }
+
+  return true;
+}
@@ -6,6 +6,17 @@ export interface ModelVersion {
   updated: string;
   isLatest?: boolean;
   url: string;
+  // Normalized values parsed from the display strings above
+  sizeBytes?: number;
+  contextTokens?: number;
+  updatedAt?: string;
+  // Parsed from the tag name (see lib/tagInfo.ts)
+  parameterCount?: number;
+  activeParameterCount?: number;
+  expertCount?: number;
+  quantization?: string;
+  precisionBits?: number;
+  variant?: string;
 }
 
 export interface ModelData {
@@ -17,6 +28,10 @@ export interface ModelData {
   tags: string;
   updated: string;
   versions: ModelVersion[];
+  // Normalized values parsed from the display strings above
+  pullCount?: number;
+  tagCount?: number;
+  updatedAt?: string;
 }
 
 export interface ScrapingLog {
@@ -25,29 +40,130 @@ export interface ScrapingLog {
   type: 'info' | 'success' | 'warning' | 'error';
 }
 
+// A model whose detail page could not be fetched during a refresh
+export interface ScrapeFailure {
+  model: string;
+  url: string;
+  error: string;
+  // HTTP status of the last attempt, if the server responded
+  status?: number;
+  attempts: number;
+  // True when the model kept its versions from the previous catalog
+  keptPrevious: boolean;
+}
+
+export type CacheStorageKind = 'memory' | 'file';
+
+// Server-side refresh job: running, paused (resumable) or idle
+export type RefreshState = 'idle' | 'running' | 'paused';
+
+// Where the cached catalog came from
+export type CatalogSource = 'scrape' | 'seed' | 'import';
+
+// A catalog stored after a successful refresh
+export interface CatalogSnapshot {
+  id: string;
+  createdAt: string;
+  models: ModelData[];
+}
+
+export interface SnapshotInfo {
+  id: string;
+  createdAt: string;
+  modelCount: number;
+}
+
+export interface RefreshProgress {
+  current: number;
+  total: number;
+  currentTask: string;
+}
+
+// Events streamed by GET /api/refresh/events
+export type RefreshEvent =
+  // Sent once on connect so a late subscriber catches up
+  | { type: 'snapshot'; refreshState: RefreshState; logs: ScrapingLog[]; progress?: RefreshProgress }
+  | { type: 'started' }
+  | { type: 'log'; log: ScrapingLog }
+  | { type: 'progress'; progress: RefreshProgress }
+  | { type: 'complete'; modelCount: number; lastUpdated: string }
+  | { type: 'stopped'; refreshState: RefreshState }
+  | { type: 'failed'; message: string };
+
 export interface ApiResponse {
   models: ModelData[];
   lastUpdated?: string;
   cacheAgeMinutes?: number;
   limit?: number;
+  storage?: CacheStorageKind;
+  source?: CatalogSource;
   status?: 'ready' | 'pending';
+  refreshState?: RefreshState;
   logs?: ScrapingLog[];
-  progress?: {
-    current: number;
-    total: number;
-    currentTask: string;
-  };
+  failures?: ScrapeFailure[];
+  progress?: RefreshProgress;
+}
+
+// GET /api/models with query parameters
+export interface ModelQueryResponse {
+  // Whole models, or only the fields asked for
+  models: Partial<ModelData>[];
+  // Models matching the filters, across all pages
+  total: number;
+  // Pass back as ?cursor= for the next page; null on the last page
+  nextCursor: string | null;
+  lastUpdated?: string;
+  status?: 'ready' | 'pending';
 }
 
 export interface CachedData {
   models: ModelData[];
   lastUpdated: Date;
   limit?: number;
+  source?: CatalogSource;
   status: 'ready' | 'pending';
   logs: ScrapingLog[];
-  progress?: {
-    current: number;
-    total: number;
-    currentTask: string;
-  };
-}
\ No newline at end of file
+  // Models that failed in the refresh that produced this data
+  failures?: ScrapeFailure[];
+  progress?: RefreshProgress;
+}
+// A model pulled on the configured Ollama server, from its /api/tags endpoint
+export interface LocalModel {
+  // Full name with tag, e.g. "llama3.2:3b"
+  name: string;
+  sizeBytes: number;
+  digest: string;
+  modifiedAt: string;
+}
+
+export interface LocalModelsResponse {
+  // False when the Ollama server could not be reached
+  available: boolean;
+  host: string;
+  models: LocalModel[];
+  // Pull, delete and copy are allowed (OLLAMA_ACTIONS_ENABLED)
+  actionsEnabled: boolean;
+  message?: string;
+}
+
+export type PullJobStatus = 'queued' | 'pulling' | 'done' | 'failed' | 'cancelled';
+
+// A queued or running "ollama pull" on the configured server
+export interface PullJob {
+  id: string;
+  model: string;
+  status: PullJobStatus;
+  // Latest status line from Ollama, e.g. "pulling manifest"
+  detail?: string;
+  // Bytes of the layer being downloaded
+  completed?: number;
+  total?: number;
+  error?: string;
+  createdAt: string;
+}
+
+// Events streamed by GET /api/local-models/pull-events
+export type PullEvent =
+  // Sent once on connect with the whole queue
+  | { type: 'snapshot'; jobs: PullJob[] }
+  | { type: 'job'; job: PullJob };
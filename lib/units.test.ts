@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSizeBytes,
+  parseContextTokens,
+  parseCount,
+  parseRelativeTime,
+  normalizeModel,
+  getUpdatedAt
+} from './units';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+const ago = (ms: number) => new Date(NOW.getTime() - ms).toISOString();
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+describe('parseSizeBytes', () => {
+  it('reads decimal size units', () => {
+    expect(parseSizeBytes('5.2GB')).toBe(5_200_000_000);
+    expect(parseSizeBytes('500MB')).toBe(500_000_000);
+    expect(parseSizeBytes('1.5 TB')).toBe(1_500_000_000_000);
+    expect(parseSizeBytes('274kB')).toBe(274_000);
+    expect(parseSizeBytes('42')).toBe(42);
+  });
+
+  it('rejects unknown units and text without a number', () => {
+    expect(parseSizeBytes('5.2GiB')).toBeUndefined();
+    expect(parseSizeBytes('large')).toBeUndefined();
+    expect(parseSizeBytes('-')).toBeUndefined();
+    expect(parseSizeBytes('')).toBeUndefined();
+  });
+});
+
+describe('parseContextTokens', () => {
+  it('reads binary K and M multiples', () => {
+    expect(parseContextTokens('128K')).toBe(131072);
+    expect(parseContextTokens('1M')).toBe(1048576);
+    expect(parseContextTokens('4096')).toBe(4096);
+  });
+
+  it('ignores "context window" and "tokens" wording', () => {
+    expect(parseContextTokens('32K context window')).toBe(32768);
+    expect(parseContextTokens('2,048 tokens')).toBe(2048);
+  });
+
+  it('rejects unknown units and empty text', () => {
+    expect(parseContextTokens('128G')).toBeUndefined();
+    expect(parseContextTokens('unknown')).toBeUndefined();
+    expect(parseContextTokens('')).toBeUndefined();
+  });
+});
+
+describe('parseCount', () => {
+  it('reads K, M and B suffixes', () => {
+    expect(parseCount('1.2M')).toBe(1_200_000);
+    expect(parseCount('3.4K')).toBe(3400);
+    expect(parseCount('2B')).toBe(2_000_000_000);
+    expect(parseCount('68')).toBe(68);
+  });
+
+  it('ignores trailing words and thousands separators', () => {
+    expect(parseCount('3.4K Pulls')).toBe(3400);
+    expect(parseCount('1,024 tags')).toBe(1024);
+  });
+
+  it('rejects text without a number', () => {
+    expect(parseCount('many')).toBeUndefined();
+    expect(parseCount('')).toBeUndefined();
+  });
+});
+
+describe('parseRelativeTime', () => {
+  it('reads "N units ago"', () => {
+    expect(parseRelativeTime('2 weeks ago', NOW)).toBe(ago(14 * DAY));
+    expect(parseRelativeTime('3 hours ago', NOW)).toBe(ago(3 * HOUR));
+    expect(parseRelativeTime('1 month ago', NOW)).toBe(ago(30 * DAY));
+    expect(parseRelativeTime('5 years ago', NOW)).toBe(ago(5 * 365 * DAY));
+  });
+
+  it('reads "a", "an" and "about"', () => {
+    expect(parseRelativeTime('a day ago', NOW)).toBe(ago(DAY));
+    expect(parseRelativeTime('an hour ago', NOW)).toBe(ago(HOUR));
+    expect(parseRelativeTime('about 2 months ago', NOW)).toBe(ago(60 * DAY));
+  });
+
+  it('reads "yesterday" and "just now"', () => {
+    expect(parseRelativeTime('yesterday', NOW)).toBe(ago(DAY));
+    expect(parseRelativeTime('Yesterday', NOW)).toBe(ago(DAY));
+    expect(parseRelativeTime('just now', NOW)).toBe(NOW.toISOString());
+  });
+
+  it('rejects absolute dates and other text', () => {
+    expect(parseRelativeTime('2024-01-01', NOW)).toBeUndefined();
+    expect(parseRelativeTime('2 weeks', NOW)).toBeUndefined();
+    expect(parseRelativeTime('in 2 days', NOW)).toBeUndefined();
+    expect(parseRelativeTime('', NOW)).toBeUndefined();
+  });
+});
+
+describe('normalizeModel', () => {
+  it('attaches parsed values to the model and its versions', () => {
+    const model = normalizeModel({
+      name: 'llama3.2',
+      url: 'https://ollama.com/library/llama3.2',
+      description: '',
+      capabilities: [],
+      pulls: '20.5M',
+      tags: '63',
+      updated: 'yesterday',
+      versions: [{ name: 'llama3.2:3b', size: '2.0GB', context: '128K', input: 'Text', updated: '2 weeks ago', url: '' }]
+    }, NOW);
+
+    expect(model).toMatchObject({ pullCount: 20_500_000, tagCount: 63, updatedAt: ago(DAY) });
+    expect(model.versions[0]).toMatchObject({
+      sizeBytes: 2_000_000_000,
+      contextTokens: 131072,
+      updatedAt: ago(14 * DAY),
+      parameterCount: 3e9
+    });
+  });
+
+  it('prefers a stored updatedAt over the relative text', () => {
+    expect(getUpdatedAt({ updated: 'yesterday', updatedAt: '2020-01-01T00:00:00.000Z' })).toBe('2020-01-01T00:00:00.000Z');
+  });
+});
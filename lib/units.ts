@@ -0,0 +1,135 @@
+import { ModelData, ModelVersion } from './types';
+import { parseTagInfo, getTagName } from './tagInfo';
+
+// Shared parsers for the display strings scraped from ollama.com.
+// Every parser returns undefined when the text cannot be understood.
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1e3,
+  mb: 1e6,
+  gb: 1e9,
+  tb: 1e12
+};
+
+// Context windows use binary multiples: "128K" is 131072 tokens
+const CONTEXT_UNITS: Record<string, number> = {
+  '': 1,
+  k: 1024,
+  m: 1024 * 1024
+};
+
+const COUNT_UNITS: Record<string, number> = {
+  '': 1,
+  k: 1e3,
+  m: 1e6,
+  b: 1e9
+};
+
+const TIME_UNITS_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000
+};
+
+// Split "5.2GB" / "1,024 tokens" into a number and a lowercase unit
+function splitValue(text: string): { value: number; unit: string } | undefined {
+  const match = text.trim().toLowerCase().replace(/,/g, '').match(/^(\d+(?:\.\d+)?)\s*([a-z]*)/);
+  if (!match) return undefined;
+  return { value: parseFloat(match[1]), unit: match[2] };
+}
+
+// "5.2GB" -> 5200000000 (decimal units, as shown on ollama.com)
+export function parseSizeBytes(text: string): number | undefined {
+  if (!text) return undefined;
+  const parsed = splitValue(text);
+  if (!parsed) return undefined;
+
+  const multiplier = SIZE_UNITS[parsed.unit || 'b'];
+  return multiplier === undefined ? undefined : Math.round(parsed.value * multiplier);
+}
+
+// "128K" -> 131072, "1M" -> 1048576, "4096" -> 4096
+export function parseContextTokens(text: string): number | undefined {
+  if (!text) return undefined;
+  const parsed = splitValue(text.replace(/context( window)?/i, ''));
+  if (!parsed) return undefined;
+
+  const unit = parsed.unit.replace(/tokens?$/, '');
+  const multiplier = CONTEXT_UNITS[unit];
+  return multiplier === undefined ? undefined : Math.round(parsed.value * multiplier);
+}
+
+// "1.2M" -> 1200000, "68" -> 68, "3.4K Pulls" -> 3400
+export function parseCount(text: string): number | undefined {
+  if (!text) return undefined;
+  const parsed = splitValue(text);
+  if (!parsed) return undefined;
+
+  // Ignore trailing words such as "pulls" or "tags"
+  const multiplier = COUNT_UNITS[parsed.unit.length === 1 ? parsed.unit : ''];
+  return multiplier === undefined ? undefined : Math.round(parsed.value * multiplier);
+}
+
+// "1 month ago" -> ISO timestamp approximately one month before `now`
+export function parseRelativeTime(text: string, now: Date = new Date()): string | undefined {
+  if (!text) return undefined;
+  const lower = text.trim().toLowerCase();
+
+  if (lower === 'just now' || lower === 'now') return now.toISOString();
+  if (lower === 'yesterday') return new Date(now.getTime() - TIME_UNITS_MS.day).toISOString();
+
+  const match = lower.match(/^(?:about\s+)?(\d+|an?)\s+(second|minute|hour|day|week|month|year)s?\s+ago$/);
+  if (!match) return undefined;
+
+  const amount = match[1] === 'a' || match[1] === 'an' ? 1 : parseInt(match[1], 10);
+  return new Date(now.getTime() - amount * TIME_UNITS_MS[match[2]]).toISOString();
+}
+
+// Attach the structured fields to a scraped version
+export function normalizeVersion(version: ModelVersion, now: Date = new Date()): ModelVersion {
+  return {
+    ...version,
+    ...parseTagInfo(getTagName(version)),
+    sizeBytes: parseSizeBytes(version.size),
+    contextTokens: parseContextTokens(version.context),
+    updatedAt: parseRelativeTime(version.updated, now)
+  };
+}
+
+// Attach the structured fields to a scraped model and its versions
+export function normalizeModel(model: ModelData, now: Date = new Date()): ModelData {
+  return {
+    ...model,
+    pullCount: parseCount(model.pulls),
+    tagCount: parseCount(model.tags),
+    updatedAt: parseRelativeTime(model.updated, now),
+    versions: model.versions.map(version => normalizeVersion(version, now))
+  };
+}
+
+// Accessors that fall back to parsing for data cached before normalization existed
+export function getSizeBytes(version: ModelVersion): number | undefined {
+  return version.sizeBytes ?? parseSizeBytes(version.size);
+}
+
+export function getContextTokens(version: ModelVersion): number | undefined {
+  return version.contextTokens ?? parseContextTokens(version.context);
+}
+
+export function getPullCount(model: ModelData): number | undefined {
+  return model.pullCount ?? parseCount(model.pulls);
+}
+
+export function getTagCount(model: ModelData): number | undefined {
+  return model.tagCount ?? parseCount(model.tags);
+}
+
+// Relative text is resolved against the current time when updatedAt is missing
+export function getUpdatedAt(item: { updated: string; updatedAt?: string }): string | undefined {
+  return item.updatedAt ?? parseRelativeTime(item.updated);
+}
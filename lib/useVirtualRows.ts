@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Row virtualization for a table inside a scrolling container: only the rows in view
+// (plus some overscan) are rendered, with spacer rows standing in for the rest.
+// Rows vary a little in height, so the row height is the average of the rendered rows.
+
+export interface VirtualRows {
+  // Ref callback for the scrolling container (it may mount after the hook first runs)
+  containerRef: (element: HTMLElement | null) => void;
+  start: number;
+  end: number;
+  // Heights of the spacer rows before and after the rendered range
+  paddingTop: number;
+  paddingBottom: number;
+  // Ref callback for rendered rows, used to measure their height
+  measureRow: (element: HTMLElement | null) => void;
+}
+
+export function useVirtualRows(
+  count: number,
+  estimatedRowHeight: number = 72,
+  overscan: number = 10
+): VirtualRows {
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+  const measured = useRef({ total: 0, rows: 0 });
+
+  useEffect(() => {
+    if (!container) return;
+
+    const onScroll = () => setScrollTop(container.scrollTop);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+
+    container.addEventListener('scroll', onScroll, { passive: true });
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+
+    return () => {
+      container.removeEventListener('scroll', onScroll);
+      observer.disconnect();
+    };
+  }, [container]);
+
+  const measureRow = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+    const stats = measured.current;
+    stats.total += element.getBoundingClientRect().height;
+    stats.rows++;
+
+    // Settle after a few hundred rows; only re-render for a visible difference
+    if (stats.rows > 500) return;
+    const average = stats.total / stats.rows;
+    setRowHeight(current => Math.abs(current - average) > 1 ? average : current);
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  return {
+    containerRef: setContainer,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, count - end) * rowHeight,
+    measureRow
+  };
+}
@@ -0,0 +1,91 @@
+import { SortField, SortDirection, SORT_FIELDS } from './modelFilters';
+import { FitFilter } from './hardware';
+import { InstallFilter } from './localModels';
+import { TagFilter, EMPTY_TAG_FILTER } from './tagInfo';
+
+// Everything that decides what the main table shows, kept in the URL so a view can be shared.
+// New filters should be added here, to both parseViewState and buildViewQuery.
+
+export interface ViewState {
+  search: string;
+  // Lower-case capability name
+  capability: string | null;
+  sortField: SortField;
+  sortDirection: SortDirection;
+  fitFilter: FitFilter;
+  installFilter: InstallFilter;
+  watchlistOnly: boolean;
+  tagFilter: TagFilter;
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  search: '',
+  capability: null,
+  sortField: 'name',
+  sortDirection: 'asc',
+  fitFilter: 'all',
+  installFilter: 'all',
+  watchlistOnly: false,
+  tagFilter: EMPTY_TAG_FILTER
+};
+
+const FIT_FILTERS: FitFilter[] = ['all', 'fits', 'runs'];
+const INSTALL_FILTERS: InstallFilter[] = ['all', 'installed', 'not-installed'];
+
+type Query = Record<string, string | string[] | undefined>;
+
+// First value of a query parameter
+const param = (query: Query, key: string): string | undefined => {
+  const value = query[key];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const oneOf = <T extends string>(value: string | undefined, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback;
+
+// Parameter counts are written in billions: minParams=7 is 7B
+const parseBillions = (value: string | undefined): number | undefined => {
+  const number = parseFloat(value || '');
+  return isNaN(number) || number < 0 ? undefined : Math.round(number * 1e9);
+};
+
+// Read a view from the query string; unknown or invalid values fall back to the defaults
+export function parseViewState(query: Query): ViewState {
+  return {
+    search: param(query, 'q') || '',
+    capability: param(query, 'capability')?.toLowerCase() || null,
+    sortField: oneOf(param(query, 'sort'), SORT_FIELDS, DEFAULT_VIEW_STATE.sortField),
+    sortDirection: oneOf(param(query, 'dir'), ['asc', 'desc'], DEFAULT_VIEW_STATE.sortDirection),
+    fitFilter: oneOf(param(query, 'fit'), FIT_FILTERS, DEFAULT_VIEW_STATE.fitFilter),
+    installFilter: oneOf(param(query, 'installed'), INSTALL_FILTERS, DEFAULT_VIEW_STATE.installFilter),
+    watchlistOnly: param(query, 'watchlist') === '1',
+    tagFilter: {
+      quantization: param(query, 'quant') || null,
+      variant: param(query, 'variant') || null,
+      minParameters: parseBillions(param(query, 'minParams')),
+      maxParameters: parseBillions(param(query, 'maxParams'))
+    }
+  };
+}
+
+// Query string for a view, leaving out defaults so links stay short ("" for the default view)
+export function buildViewQuery(state: ViewState): string {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | null | undefined, fallback?: string) => {
+    if (value && value !== fallback) params.set(key, value);
+  };
+
+  set('q', state.search.trim() ? state.search : '');
+  set('capability', state.capability);
+  set('sort', state.sortField, DEFAULT_VIEW_STATE.sortField);
+  set('dir', state.sortDirection, DEFAULT_VIEW_STATE.sortDirection);
+  set('fit', state.fitFilter, DEFAULT_VIEW_STATE.fitFilter);
+  set('installed', state.installFilter, DEFAULT_VIEW_STATE.installFilter);
+  set('watchlist', state.watchlistOnly ? '1' : null);
+  set('quant', state.tagFilter.quantization);
+  set('variant', state.tagFilter.variant);
+  set('minParams', state.tagFilter.minParameters !== undefined ? String(state.tagFilter.minParameters / 1e9) : null);
+  set('maxParams', state.tagFilter.maxParameters !== undefined ? String(state.tagFilter.maxParameters / 1e9) : null);
+
+  return params.toString();
+}
@@ -0,0 +1,74 @@
+import { CatalogDiff, ModelChange } from './catalogDiff';
+
+// Watched (starred) model names, kept in the browser's localStorage
+
+const WATCHLIST_KEY = 'watchlist';
+
+// Last snapshot whose watchlist notification was dismissed, so each refresh notifies once
+const WATCHLIST_SEEN_KEY = 'watchlistSeenSnapshot';
+
+export interface WatchlistChanges {
+  changed: ModelChange[];
+  removed: string[];
+}
+
+export function loadWatchlist(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(WATCHLIST_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((name): name is string => typeof name === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveWatchlist(names: string[]): void {
+  try {
+    localStorage.setItem(WATCHLIST_KEY, JSON.stringify(names));
+  } catch (error) {
+    console.error('Failed to save watchlist:', error);
+  }
+}
+
+export function loadSeenSnapshot(): string | null {
+  try {
+    return localStorage.getItem(WATCHLIST_SEEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveSeenSnapshot(id: string): void {
+  try {
+    localStorage.setItem(WATCHLIST_SEEN_KEY, id);
+  } catch (error) {
+    console.error('Failed to save watchlist state:', error);
+  }
+}
+
+// Watched models whose update time, tag list or sizes changed (description and
+// context changes alone are not worth a notification), and watched models that were removed
+export function getWatchlistChanges(diff: CatalogDiff, watchlist: string[]): WatchlistChanges {
+  const watched = new Set(watchlist);
+  return {
+    changed: diff.changedModels.filter(change =>
+      watched.has(change.name) && (
+        change.addedTags.length > 0 ||
+        change.removedTags.length > 0 ||
+        change.changes.some(c => c.field === 'updated' || c.field === 'size')
+      )
+    ),
+    removed: diff.removedModels.filter(name => watched.has(name))
+  };
+}
+
+// One-line summary: "updated 2 hours ago · new tags: 8b · 2 sizes changed"
+export function describeWatchedChange(change: ModelChange): string {
+  const updated = change.changes.find(c => c.field === 'updated');
+  const sizes = change.changes.filter(c => c.field === 'size').length;
+  return [
+    updated && `updated ${updated.after}`,
+    change.addedTags.length > 0 && `new tags: ${change.addedTags.join(', ')}`,
+    change.removedTags.length > 0 && `removed tags: ${change.removedTags.join(', ')}`,
+    sizes > 0 && `${sizes} size${sizes === 1 ? '' : 's'} changed`
+  ].filter(Boolean).join(' · ');
+}
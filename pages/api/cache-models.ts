@@ -1,42 +1,122 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { dataCache } from '@/lib/dataCache';
-import { ModelData } from '@/lib/types';
+import { isWriteAuthorized, getWriteToken } from '@/lib/auth';
+import { scrapeJob } from '@/lib/scrapeJob';
+import { validateCatalog, ValidationIssue, MAX_VALIDATION_ISSUES } from '@/lib/catalogSchema';
+import { isForcedWrite, getForceHint } from '@/lib/catalogGuard';
 
+interface ApiError {
+  error: string;
+  message: string;
+  issues?: ValidationIssue[];
+}
+
+interface CacheResponse {
+  message: string;
+  status: 'ready';
+  modelCount: number;
+}
+
+// Full catalogs are a few MB of JSON
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '20mb'
+    }
+  }
+};
+
+// POST /api/cache-models with { models, limit?, force? } stores client-scraped models
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse
+  res: NextApiResponse<CacheResponse | ApiError>
 ) {
   if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only POST requests are supported'
+    });
   }
 
-  try {
-    const { models, limit } = req.body as { models: ModelData[], limit?: number };
-    
-    if (!Array.isArray(models)) {
-      return res.status(400).json({ error: 'Invalid models data' });
-    }
+  if (!getWriteToken()) {
+    return res.status(403).json({
+      error: 'Caching disabled',
+      message: 'Set CATALOG_WRITE_TOKEN on the server to enable storing scraped models'
+    });
+  }
+
+  if (!isWriteAuthorized(req)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid write token is required to store models'
+    });
+  }
+
+  // The running scrape would overwrite these models anyway
+  if (scrapeJob.isRunning()) {
+    return res.status(409).json({
+      error: 'Refresh in progress',
+      message: 'Wait for the running refresh to finish before storing models'
+    });
+  }
 
+  const { models, errors } = validateCatalog(req.body);
+  const { limit, force } = (req.body && typeof req.body === 'object' ? req.body : {}) as { limit?: unknown; force?: unknown };
+
+  if (limit !== undefined && limit !== null && !(Number.isInteger(limit) && (limit as number) > 0)) {
+    errors.push({ path: 'limit', message: 'expected a positive whole number' });
+  }
+  if (force !== undefined && typeof force !== 'boolean') {
+    errors.push({ path: 'force', message: 'expected boolean' });
+  }
+
+  if (errors.length > 0) {
+    // Validation stops collecting at MAX_VALIDATION_ISSUES
+    const count = errors.length >= MAX_VALIDATION_ISSUES ? `${MAX_VALIDATION_ISSUES}+` : String(errors.length);
+    return res.status(400).json({
+      error: 'Invalid models data',
+      message: `The models data has ${count} invalid field(s)`,
+      issues: errors
+    });
+  }
+
+  if (models.length === 0) {
+    return res.status(400).json({
+      error: 'Invalid models data',
+      message: 'The models data contains no models'
+    });
+  }
+
+  try {
     console.log(`📦 [CACHE] Storing ${models.length} models from client scraping`);
-    
-    const responseData = {
+
+    const refusal = dataCache.set({
       models,
-      limit: limit && limit < Infinity ? limit : undefined,
-      status: 'ready' as const,
+      limit: typeof limit === 'number' ? limit : undefined,
+      source: 'scrape',
+      status: 'ready',
       logs: []
-    };
+    }, { force: isForcedWrite(req) });
+    if (refusal) {
+      console.warn(`⚠️ [CACHE] ${refusal}`);
+      return res.status(409).json({
+        error: 'Catalog would shrink',
+        message: getForceHint(refusal)
+      });
+    }
 
-    dataCache.set(responseData);
-    
     console.log(`✅ [CACHE] Successfully cached ${models.length} models at ${new Date().toISOString()}`);
-    
+
     res.status(200).json({
       message: `Successfully cached ${models.length} models`,
-      status: 'ready'
+      status: 'ready',
+      modelCount: models.length
     });
-    
-  } catch (error: any) {
+  } catch (error) {
     console.error('❌ [CACHE-ERROR] Failed to cache models:', error);
-    res.status(500).json({ error: 'Failed to cache models' });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to cache models'
+    });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { dataCache } from '@/lib/dataCache';
+import { diffCatalogs, ChangesResponse } from '@/lib/catalogDiff';
+
+interface ApiError {
+  error: string;
+  message: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ChangesResponse | ApiError>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only GET requests are supported'
+    });
+  }
+
+  const { since } = req.query;
+  let sinceTime: number | null = null;
+
+  if (since !== undefined) {
+    sinceTime = typeof since === 'string' ? Date.parse(since) : NaN;
+    if (isNaN(sinceTime)) {
+      return res.status(400).json({
+        error: 'Invalid since',
+        message: 'since must be an ISO date, e.g. 2025-01-31 or 2025-01-31T12:00:00Z'
+      });
+    }
+  }
+
+  try {
+    const snapshots = dataCache.getSnapshots();
+    const latest = snapshots[snapshots.length - 1];
+
+    // Baseline: the last snapshot taken at or before `since` (the earliest one if
+    // `since` predates the history), or the previous snapshot without `since`
+    let baseline = snapshots.length > 1 ? snapshots[snapshots.length - 2] : undefined;
+    if (sinceTime !== null && snapshots.length > 0) {
+      const before = snapshots.filter(snapshot => Date.parse(snapshot.createdAt) <= sinceTime!);
+      baseline = before.length > 0 ? before[before.length - 1] : snapshots[0];
+    }
+
+    const fromSnapshot = baseline && baseline.id !== latest?.id ? dataCache.getSnapshot(baseline.id) : null;
+    const toSnapshot = latest ? dataCache.getSnapshot(latest.id) : null;
+    const diff = fromSnapshot && toSnapshot
+      ? diffCatalogs(fromSnapshot.models, toSnapshot.models, Date.parse(fromSnapshot.createdAt))
+      : { addedModels: [], removedModels: [], changedModels: [] };
+
+    res.status(200).json({
+      from: fromSnapshot ? baseline! : null,
+      to: latest || null,
+      ...diff
+    });
+  } catch (error) {
+    console.error('Error computing catalog changes:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to compute catalog changes'
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { dataCache } from '@/lib/dataCache';
+import { parseQuery, QuerySyntaxError } from '@/lib/query';
+import { SORT_FIELDS, SortField, filterAndSortModels } from '@/lib/modelFilters';
+import {
+  EXPORT_FORMATS,
+  exportModels,
+  isExportFormat,
+  getExportContentType,
+  getExportFilename
+} from '@/lib/export';
+
+interface ApiError {
+  error: string;
+  message: string;
+}
+
+const first = (value: string | string[] | undefined) => Array.isArray(value) ? value[0] : value;
+
+// GET /api/export?format=csv&q=...&capability=vision&sort=size&dir=desc&expand=versions
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<string | ApiError>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only GET requests are supported'
+    });
+  }
+
+  const format = first(req.query.format) || 'csv';
+  const sort = first(req.query.sort) || 'name';
+  const dir = first(req.query.dir) || 'asc';
+  const capability = first(req.query.capability);
+  const perVersion = first(req.query.expand) === 'versions';
+
+  if (!isExportFormat(format)) {
+    return res.status(400).json({
+      error: 'Invalid format',
+      message: `format must be one of: ${EXPORT_FORMATS.join(', ')}`
+    });
+  }
+
+  if (!(SORT_FIELDS as string[]).includes(sort) || (dir !== 'asc' && dir !== 'desc')) {
+    return res.status(400).json({
+      error: 'Invalid sort',
+      message: `sort must be one of: ${SORT_FIELDS.join(', ')}; dir must be asc or desc`
+    });
+  }
+
+  let query;
+  try {
+    query = parseQuery(first(req.query.q) || '');
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return res.status(400).json({
+        error: 'Invalid query',
+        message: error.message
+      });
+    }
+    throw error;
+  }
+
+  try {
+    const cached = dataCache.get();
+    const models = filterAndSortModels(cached?.models || [], {
+      query,
+      capability: capability ? capability.toLowerCase() : null,
+      sortField: sort as SortField,
+      sortDirection: dir
+    });
+
+    res.setHeader('Content-Type', getExportContentType(format));
+    res.setHeader('Content-Disposition', `attachment; filename="${getExportFilename(format, { perVersion })}"`);
+    res.status(200).send(exportModels(models, format, { perVersion }));
+  } catch (error) {
+    console.error('Error exporting models:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to export models'
+    });
+  }
+}
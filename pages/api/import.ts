@@ -0,0 +1,103 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { dataCache } from '@/lib/dataCache';
+import { isWriteAuthorized, getWriteToken } from '@/lib/auth';
+import { scrapeJob } from '@/lib/scrapeJob';
+import { validateCatalog, ValidationIssue, MAX_VALIDATION_ISSUES } from '@/lib/catalogSchema';
+import { isForcedWrite, getForceHint } from '@/lib/catalogGuard';
+
+interface ApiError {
+  error: string;
+  message: string;
+  issues?: ValidationIssue[];
+}
+
+interface ImportResponse {
+  message: string;
+  modelCount: number;
+}
+
+// Full catalogs are a few MB of JSON
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '20mb'
+    }
+  }
+};
+
+// POST /api/import with a catalog JSON body replaces the cached catalog (?force=true to allow a much smaller one)
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ImportResponse | ApiError>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only POST requests are supported'
+    });
+  }
+
+  if (!getWriteToken()) {
+    return res.status(403).json({
+      error: 'Import disabled',
+      message: 'Set CATALOG_WRITE_TOKEN on the server to enable catalog imports'
+    });
+  }
+
+  if (!isWriteAuthorized(req)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid write token is required to import a catalog'
+    });
+  }
+
+  // An import would be overwritten by the running scrape anyway
+  if (scrapeJob.isRunning()) {
+    return res.status(409).json({
+      error: 'Refresh in progress',
+      message: 'Wait for the running refresh to finish before importing'
+    });
+  }
+
+  const { models, errors } = validateCatalog(req.body);
+
+  if (errors.length > 0) {
+    // Validation stops collecting at MAX_VALIDATION_ISSUES
+    const count = errors.length >= MAX_VALIDATION_ISSUES ? `${MAX_VALIDATION_ISSUES}+` : String(errors.length);
+    return res.status(400).json({
+      error: 'Invalid catalog',
+      message: `The catalog has ${count} invalid field(s)`,
+      issues: errors
+    });
+  }
+
+  if (models.length === 0) {
+    return res.status(400).json({
+      error: 'Invalid catalog',
+      message: 'The catalog contains no models'
+    });
+  }
+
+  try {
+    const refusal = dataCache.set({ models, source: 'import', status: 'ready', logs: [] }, { force: isForcedWrite(req) });
+    if (refusal) {
+      console.warn(`⚠️ [IMPORT] ${refusal}`);
+      return res.status(409).json({
+        error: 'Catalog would shrink',
+        message: getForceHint(refusal)
+      });
+    }
+    console.log(`📥 [IMPORT] Imported ${models.length} models`);
+
+    res.status(200).json({
+      message: `Imported ${models.length} models`,
+      modelCount: models.length
+    });
+  } catch (error) {
+    console.error('❌ [IMPORT-ERROR] Failed to import catalog:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to import catalog'
+    });
+  }
+}
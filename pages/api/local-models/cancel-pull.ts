@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOllamaActionsAccessError } from '@/lib/auth';
+import { pullQueue } from '@/lib/pullQueue';
+
+// POST /api/local-models/cancel-pull { id }
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only POST requests are supported'
+    });
+  }
+
+  const accessError = getOllamaActionsAccessError(req);
+  if (accessError) {
+    return res.status(accessError.status).json({
+      error: accessError.error,
+      message: accessError.message
+    });
+  }
+
+  const { id } = (req.body || {}) as { id?: unknown };
+
+  if (typeof id !== 'string' || !pullQueue.cancel(id)) {
+    return res.status(409).json({
+      error: 'No pull to cancel',
+      message: 'The pull is not queued or running'
+    });
+  }
+
+  res.status(200).json({ message: 'Pull cancelled' });
+}
@@ -0,0 +1,53 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOllamaActionsAccessError } from '@/lib/auth';
+import { copyModel, isValidModelName } from '@/lib/ollamaClient';
+import { HttpError } from '@/lib/retry';
+
+interface ApiError {
+  error: string;
+  message: string;
+}
+
+// POST /api/local-models/copy { source, destination } copies a model under a new name
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ message: string } | ApiError>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only POST requests are supported'
+    });
+  }
+
+  const accessError = getOllamaActionsAccessError(req);
+  if (accessError) {
+    return res.status(accessError.status).json({
+      error: accessError.error,
+      message: accessError.message
+    });
+  }
+
+  const { source, destination } = (req.body || {}) as { source?: unknown; destination?: unknown };
+
+  if (!isValidModelName(source) || !isValidModelName(destination)) {
+    return res.status(400).json({
+      error: 'Invalid model',
+      message: 'source and destination must be model names such as "llama3.2:3b"'
+    });
+  }
+
+  try {
+    await copyModel(source, destination);
+    console.log(`📋 [OLLAMA] Copied ${source} to ${destination}`);
+    res.status(200).json({ message: `Copied ${source} to ${destination}` });
+  } catch (error: any) {
+    console.error(`❌ [OLLAMA] Failed to copy ${source}:`, error.message);
+    // Ollama's own 4xx (e.g. 404 for an unknown model) pass through; anything else is a gateway error
+    const status = error instanceof HttpError && error.status < 500 ? error.status : 502;
+    res.status(status).json({
+      error: 'Copy failed',
+      message: error.message
+    });
+  }
+}
@@ -0,0 +1,53 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOllamaActionsAccessError } from '@/lib/auth';
+import { deleteModel, isValidModelName } from '@/lib/ollamaClient';
+import { HttpError } from '@/lib/retry';
+
+interface ApiError {
+  error: string;
+  message: string;
+}
+
+// POST /api/local-models/delete { model } removes a model from the Ollama server
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ message: string } | ApiError>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only POST requests are supported'
+    });
+  }
+
+  const accessError = getOllamaActionsAccessError(req);
+  if (accessError) {
+    return res.status(accessError.status).json({
+      error: accessError.error,
+      message: accessError.message
+    });
+  }
+
+  const { model } = (req.body || {}) as { model?: unknown };
+
+  if (!isValidModelName(model)) {
+    return res.status(400).json({
+      error: 'Invalid model',
+      message: 'model must be a model name such as "llama3.2:3b"'
+    });
+  }
+
+  try {
+    await deleteModel(model);
+    console.log(`🗑️ [OLLAMA] Deleted ${model}`);
+    res.status(200).json({ message: `Deleted ${model}` });
+  } catch (error: any) {
+    console.error(`❌ [OLLAMA] Failed to delete ${model}:`, error.message);
+    // Ollama's own 4xx (e.g. 404 for an unknown model) pass through; anything else is a gateway error
+    const status = error instanceof HttpError && error.status < 500 ? error.status : 502;
+    res.status(status).json({
+      error: 'Delete failed',
+      message: error.message
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { LocalModelsResponse } from '@/lib/types';
+import { getOllamaHost, isOllamaActionsEnabled, listLocalModels } from '@/lib/ollamaClient';
+import { getWriteToken } from '@/lib/auth';
+
+interface ApiError {
+  error: string;
+  message: string;
+}
+
+// GET /api/local-models lists the models pulled on the configured Ollama server
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<LocalModelsResponse | ApiError>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only GET requests are supported'
+    });
+  }
+
+  const host = getOllamaHost();
+  // Actions also need the write token, which the page asks for
+  const actionsEnabled = isOllamaActionsEnabled() && getWriteToken() !== null;
+
+  try {
+    const models = await listLocalModels(host);
+    res.status(200).json({ available: true, host, models, actionsEnabled });
+  } catch (error: any) {
+    // No local Ollama is a normal situation, not a server error
+    const message = error.name === 'TimeoutError'
+      ? `Ollama at ${host} did not respond`
+      : `Could not reach Ollama at ${host}: ${error.message}`;
+    console.warn(`⚠️ [OLLAMA] ${message}`);
+    res.status(200).json({ available: false, host, models: [], actionsEnabled, message });
+  }
+}
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { isValidModelName } from '@/lib/ollamaClient';
+import { getOllamaActionsAccessError } from '@/lib/auth';
+import { pullQueue } from '@/lib/pullQueue';
+import { PullJob } from '@/lib/types';
+
+interface ApiError {
+  error: string;
+  message: string;
+}
+
+// POST /api/local-models/pull { model } queues a pull; progress streams from /api/local-models/pull-events
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<{ job: PullJob } | ApiError>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only POST requests are supported'
+    });
+  }
+
+  const accessError = getOllamaActionsAccessError(req);
+  if (accessError) {
+    return res.status(accessError.status).json({
+      error: accessError.error,
+      message: accessError.message
+    });
+  }
+
+  const { model } = (req.body || {}) as { model?: unknown };
+
+  if (!isValidModelName(model)) {
+    return res.status(400).json({
+      error: 'Invalid model',
+      message: 'model must be a model name such as "llama3.2:3b"'
+    });
+  }
+
+  res.status(202).json({ job: pullQueue.enqueue(model) });
+}
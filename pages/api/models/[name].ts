@@ -0,0 +1,58 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { dataCache } from '@/lib/dataCache';
+import { ModelData } from '@/lib/types';
+import { ModelQueryError, parseFields, selectFields } from '@/lib/modelQuery';
+
+interface ApiError {
+  error: string;
+  message: string;
+}
+
+// GET /api/models/llama3.2?fields=name,versions
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Partial<ModelData> | ApiError>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only GET requests are supported'
+    });
+  }
+
+  const { name, ...query } = req.query;
+
+  try {
+    // Only fields is supported; other parameters are ignored
+    const fields = parseFields(query);
+
+    const cachedData = dataCache.get();
+    const model = cachedData?.models.find(m => m.name === name);
+
+    if (!model) {
+      return res.status(404).json({
+        error: 'Model not found',
+        message: `No model named "${name}" in the catalog`
+      });
+    }
+
+    res.setHeader(
+      'Cache-Control',
+      cachedData?.status === 'pending' ? 'no-store' : 'public, s-maxage=300, stale-while-revalidate=600'
+    );
+    res.status(200).json(selectFields(model, fields));
+  } catch (error) {
+    if (error instanceof ModelQueryError) {
+      return res.status(error.status).json({
+        error: error.error,
+        message: error.message
+      });
+    }
+
+    console.error('Error serving model data:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to retrieve model data'
+    });
+  }
+}
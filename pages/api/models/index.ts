@@ -0,0 +1,94 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { dataCache } from '@/lib/dataCache';
+import { scrapeJob } from '@/lib/scrapeJob';
+import { ApiResponse, ModelQueryResponse } from '@/lib/types';
+import { ModelQueryError, hasModelQueryParams, parseModelQuery, runModelQuery } from '@/lib/modelQuery';
+
+interface ApiError {
+  error: string;
+  message: string;
+}
+
+// GET /api/models: the whole catalog with refresh state, as used by the app
+// GET /api/models?capability=vision&maxSize=10GB&sort=pulls&dir=desc: a page of matching models
+// (parameters are described in /api/openapi)
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiResponse | ModelQueryResponse | ApiError>
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ 
+      error: 'Method not allowed',
+      message: 'Only GET requests are supported'
+    });
+  }
+
+  try {
+    const cachedData = dataCache.get();
+
+    if (hasModelQueryParams(req.query)) {
+      const catalogVersion = cachedData?.lastUpdated.toISOString() || '';
+      const result = runModelQuery(cachedData?.models || [], parseModelQuery(req.query, catalogVersion), catalogVersion);
+
+      res.setHeader(
+        'Cache-Control',
+        !cachedData || cachedData.status === 'pending' ? 'no-store' : 'public, s-maxage=300, stale-while-revalidate=600'
+      );
+      return res.status(200).json({
+        ...result,
+        lastUpdated: cachedData?.lastUpdated.toISOString(),
+        status: cachedData?.status
+      });
+    }
+
+    // If no cached data exists, return empty response with instruction
+    if (!cachedData) {
+      return res.status(200).json({
+        models: [],
+        lastUpdated: undefined,
+        cacheAgeMinutes: undefined,
+        limit: undefined,
+        storage: dataCache.getStorageKind(),
+        refreshState: scrapeJob.getState()
+      });
+    }
+
+    // Return cached data with metadata
+    const response: ApiResponse = {
+      models: cachedData.models,
+      lastUpdated: cachedData.lastUpdated.toISOString(),
+      cacheAgeMinutes: dataCache.getAgeInMinutes(),
+      limit: cachedData.limit,
+      storage: dataCache.getStorageKind(),
+      source: cachedData.source,
+      status: cachedData.status,
+      refreshState: scrapeJob.getState(),
+      logs: cachedData.logs || [],
+      failures: cachedData.failures,
+      progress: cachedData.progress
+    };
+
+    // Set cache headers (cache for 5 minutes on client side, never while a scrape is running)
+    res.setHeader(
+      'Cache-Control',
+      cachedData.status === 'pending' ? 'no-store' : 'public, s-maxage=300, stale-while-revalidate=600'
+    );
+    
+    res.status(200).json(response);
+    
+  } catch (error) {
+    if (error instanceof ModelQueryError) {
+      return res.status(error.status).json({
+        error: error.error,
+        message: error.message
+      });
+    }
+
+    console.error('Error serving models data:', error);
+    res.status(500).json({ 
+      error: 'Internal server error',
+      message: 'Failed to retrieve models data'
+    });
+  }
+}
\ No newline at end of file
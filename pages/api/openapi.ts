@@ -0,0 +1,23 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { openApiDocument } from '@/lib/openapi';
+
+interface ApiError {
+  error: string;
+  message: string;
+}
+
+// GET /api/openapi: OpenAPI document for the catalog API
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<typeof openApiDocument | ApiError>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only GET requests are supported'
+    });
+  }
+
+  res.setHeader('Cache-Control', 'public, max-age=3600');
+  res.status(200).json(openApiDocument);
+}
@@ -1,58 +1,191 @@
+import crypto from 'crypto';
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { createResponseCache, CachedResponse } from '@/lib/proxyCache';
+import { createClientRateLimiter, getClientId } from '@/lib/clientRateLimit';
+
+interface ApiError {
+  error: string;
+  message: string;
+  // Upstream status, when ollama.com answered with an error
+  status?: number;
+}
+
+// Optional positive numeric setting from the environment
+const envNumber = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) || value <= 0 ? fallback : value;
+};
+
+const CACHE_TTL_MS = envNumber('PROXY_CACHE_TTL_SECONDS', 300) * 1000;
+const TIMEOUT_MS = envNumber('PROXY_TIMEOUT_MS', 10000);
+const MAX_BYTES = envNumber('PROXY_MAX_BYTES', 5 * 1024 * 1024);
+const RATE_LIMIT_PER_MINUTE = envNumber('PROXY_RATE_LIMIT', 120);
+
+const cache = createResponseCache(CACHE_TTL_MS, 500);
+const rateLimiter = createClientRateLimiter(RATE_LIMIT_PER_MINUTE, 60 * 1000);
+
+// Only the pages the scraper needs: the search page and model pages
+const ALLOWED_PATHS = [/^\/search$/, /^\/library\/[\w.-]+(:[\w.-]+)?(\/tags)?$/];
+
+// Parse and check the requested URL; returns the cache key (path and query) or null
+function getAllowedPath(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'https:' || url.host !== 'ollama.com' || url.username || url.password) return null;
+  if (!ALLOWED_PATHS.some(pattern => pattern.test(url.pathname))) return null;
+  return url.pathname + url.search;
+}
+
+// Read the body, giving up once it exceeds maxBytes; null means too large
+async function readBodyWithLimit(response: Response, maxBytes: number): Promise<string | null> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) return null;
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    total += result.value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(result.value);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Serve a cached page, answering 304 when the browser already has this version
+function sendCached(req: NextApiRequest, res: NextApiResponse, entry: CachedResponse, cacheStatus: string) {
+  const etag = entry.etag || `"${crypto.createHash('sha1').update(entry.body).digest('base64url')}"`;
+
+  res.setHeader('ETag', etag);
+  res.setHeader('Cache-Control', `private, max-age=${Math.round(CACHE_TTL_MS / 1000)}`);
+  res.setHeader('X-Proxy-Cache', cacheStatus);
+
+  if (req.headers['if-none-match'] === etag) {
+    return res.status(304).end();
+  }
+
+  res.setHeader('Content-Type', entry.contentType);
+  res.status(200).send(entry.body);
+}
 
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse
+  res: NextApiResponse<string | ApiError>
 ) {
   if (req.method !== 'GET') {
-    return res.status(405).json({ error: 'Method not allowed' });
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only GET requests are supported'
+    });
+  }
+
+  const limit = rateLimiter.check(getClientId(req));
+  if (!limit.allowed) {
+    res.setHeader('Retry-After', String(Math.ceil(limit.retryAfterMs / 1000)));
+    return res.status(429).json({
+      error: 'Too many requests',
+      message: `The proxy allows ${RATE_LIMIT_PER_MINUTE} requests per minute`
+    });
   }
 
   const { url } = req.query;
-  
+
   if (!url || typeof url !== 'string') {
-    return res.status(400).json({ error: 'URL parameter is required' });
+    return res.status(400).json({
+      error: 'Invalid url',
+      message: 'URL parameter is required'
+    });
   }
 
-  // Only allow ollama.com requests for security
-  if (!url.startsWith('https://ollama.com/')) {
-    return res.status(403).json({ error: 'Only ollama.com URLs are allowed' });
+  // Only ollama.com search and model pages, so this cannot be used as an open relay
+  const path = getAllowedPath(url);
+  if (!path) {
+    return res.status(403).json({
+      error: 'URL not allowed',
+      message: 'Only https://ollama.com/search and https://ollama.com/library/* are allowed'
+    });
+  }
+
+  const cached = cache.get(path);
+  if (cached && cache.isFresh(cached)) {
+    return sendCached(req, res, cached, 'HIT');
   }
 
   try {
-    console.log(`🌐 [PROXY] Fetching: ${url}`);
-    
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; OllamaExplorer/1.0)',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'DNT': '1',
-        'Connection': 'keep-alive'
-      }
+    console.log(`🌐 [PROXY] Fetching: ${path}`);
+
+    const headers: Record<string, string> = {
+      'User-Agent': 'Mozilla/5.0 (compatible; OllamaExplorer/1.0)',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      'Accept-Language': 'en-US,en;q=0.5'
+    };
+
+    // Revalidate a stale entry instead of downloading it again
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+    const response = await fetch(`https://ollama.com${path}`, {
+      headers,
+      signal: AbortSignal.timeout(TIMEOUT_MS)
     });
 
+    if (response.status === 304 && cached) {
+      const revalidated = { ...cached, fetchedAt: Date.now() };
+      cache.set(path, revalidated);
+      return sendCached(req, res, revalidated, 'REVALIDATED');
+    }
+
+    // Pass upstream errors through (404 for unknown models, 429 with Retry-After, ...)
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      const retryAfter = response.headers.get('retry-after');
+      if (retryAfter) res.setHeader('Retry-After', retryAfter);
+
+      console.warn(`⚠️ [PROXY] Upstream returned ${response.status} for ${path}`);
+      return res.status(response.status).json({
+        error: 'Upstream error',
+        message: `ollama.com returned HTTP ${response.status}`,
+        status: response.status
+      });
     }
 
-    const html = await response.text();
-    console.log(`✅ [PROXY] Successfully fetched ${Math.round(html.length / 1024)}KB from ${url}`);
-    
-    // Return HTML with proper CORS headers
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-    res.setHeader('Content-Type', 'text/html');
-    
-    res.status(200).send(html);
-    
+    const body = await readBodyWithLimit(response, MAX_BYTES);
+    if (body === null) {
+      console.warn(`⚠️ [PROXY] Response for ${path} exceeds ${MAX_BYTES} bytes`);
+      return res.status(502).json({
+        error: 'Upstream response too large',
+        message: `Responses are limited to ${MAX_BYTES} bytes`
+      });
+    }
+
+    const entry: CachedResponse = {
+      body,
+      contentType: response.headers.get('content-type') || 'text/html; charset=utf-8',
+      etag: response.headers.get('etag') || undefined,
+      lastModified: response.headers.get('last-modified') || undefined,
+      fetchedAt: Date.now()
+    };
+    cache.set(path, entry);
+
+    console.log(`✅ [PROXY] Successfully fetched ${Math.round(body.length / 1024)}KB from ${path}`);
+    sendCached(req, res, entry, 'MISS');
+
   } catch (error: any) {
-    console.error(`❌ [PROXY] Failed to fetch ${url}:`, error);
-    res.status(500).json({ 
-      error: 'Failed to fetch URL',
-      details: error.message 
+    const timedOut = error.name === 'TimeoutError';
+    console.error(`❌ [PROXY] Failed to fetch ${path}:`, error);
+    res.status(timedOut ? 504 : 502).json({
+      error: timedOut ? 'Upstream timeout' : 'Failed to fetch URL',
+      message: timedOut ? `ollama.com did not respond within ${TIMEOUT_MS}ms` : error.message
     });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { scrapeJob } from '@/lib/scrapeJob';
+
+// POST /api/refresh/cancel { savePartial?: boolean }
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only POST requests are supported'
+    });
+  }
+
+  const { savePartial } = (req.body || {}) as { savePartial?: boolean };
+
+  if (savePartial !== undefined && typeof savePartial !== 'boolean') {
+    return res.status(400).json({
+      error: 'Invalid savePartial',
+      message: 'savePartial must be a boolean'
+    });
+  }
+
+  // Aborts a running refresh, or discards a paused one
+  if (!scrapeJob.cancel(savePartial === true)) {
+    return res.status(409).json({
+      error: 'No refresh to cancel',
+      message: 'No refresh is running or paused'
+    });
+  }
+
+  console.log('🛑 [REFRESH] Cancel requested');
+
+  res.status(200).json({
+    message: 'Refresh cancelled',
+    refreshState: scrapeJob.getState()
+  });
+}
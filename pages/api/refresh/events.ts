@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { dataCache } from '@/lib/dataCache';
+import { scrapeJob } from '@/lib/scrapeJob';
+import { refreshEvents } from '@/lib/refreshEvents';
+import { RefreshEvent } from '@/lib/types';
+
+// Comment line sent periodically so proxies keep the connection open
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// GET /api/refresh/events streams refresh logs, progress and completion as Server-Sent Events
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only GET requests are supported'
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Compression and proxy buffering would hold events back
+    'Content-Encoding': 'none',
+    'X-Accel-Buffering': 'no'
+  });
+
+  const send = (event: RefreshEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Catch up on a refresh that started before this client connected
+  const cached = dataCache.get();
+  const refreshState = scrapeJob.getState();
+  send({
+    type: 'snapshot',
+    refreshState,
+    logs: refreshState === 'idle' ? [] : cached?.logs || [],
+    progress: refreshState === 'running' ? cached?.progress : undefined
+  });
+
+  const unsubscribe = refreshEvents.subscribe(send);
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  // Keep the handler pending until the client disconnects
+  await new Promise<void>(resolve => {
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      resolve();
+    });
+  });
+}
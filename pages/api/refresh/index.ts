@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { scrapeJob } from '@/lib/scrapeJob';
+import { isWriteAuthorized, getWriteToken } from '@/lib/auth';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only POST requests are supported'
+    });
+  }
+
+  const { limit, full } = (req.body || {}) as { limit?: number; full?: boolean };
+
+  if (limit !== undefined && (typeof limit !== 'number' || limit < 1)) {
+    return res.status(400).json({
+      error: 'Invalid limit',
+      message: 'limit must be a positive number'
+    });
+  }
+
+  // A limited run skips most of ollama.com, so it is reserved for write-token holders
+  if (limit !== undefined && !getWriteToken()) {
+    return res.status(403).json({
+      error: 'Limited refresh disabled',
+      message: 'Set CATALOG_WRITE_TOKEN on the server to enable refreshes with a limit'
+    });
+  }
+
+  if (limit !== undefined && !isWriteAuthorized(req)) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'A valid write token is required to refresh with a limit'
+    });
+  }
+
+  if (full !== undefined && typeof full !== 'boolean') {
+    return res.status(400).json({
+      error: 'Invalid full',
+      message: 'full must be a boolean'
+    });
+  }
+
+  // Incremental by default: only new or changed models are refetched
+  if (!scrapeJob.start(limit ?? Infinity, { full: full === true })) {
+    return res.status(409).json({
+      error: 'Scrape already running',
+      message: 'A refresh is already in progress'
+    });
+  }
+
+  console.log(`🚀 [REFRESH] Started ${full ? 'full' : 'incremental'} server-side scrape`);
+
+  res.status(202).json({
+    message: 'Refresh started',
+    status: 'pending'
+  });
+}
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { scrapeJob } from '@/lib/scrapeJob';
+
+// POST /api/refresh/pause { savePartial?: boolean }
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only POST requests are supported'
+    });
+  }
+
+  const { savePartial } = (req.body || {}) as { savePartial?: boolean };
+
+  if (savePartial !== undefined && typeof savePartial !== 'boolean') {
+    return res.status(400).json({
+      error: 'Invalid savePartial',
+      message: 'savePartial must be a boolean'
+    });
+  }
+
+  if (!scrapeJob.pause(savePartial === true)) {
+    return res.status(409).json({
+      error: 'No refresh running',
+      message: 'There is no running refresh to pause'
+    });
+  }
+
+  console.log('⏸️ [REFRESH] Pause requested');
+
+  // The job stops once in-flight requests are aborted
+  res.status(202).json({
+    message: 'Refresh pausing',
+    refreshState: 'paused'
+  });
+}
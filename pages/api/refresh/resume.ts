@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { scrapeJob } from '@/lib/scrapeJob';
+
+// POST /api/refresh/resume continues a paused refresh from its checkpoint
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({
+      error: 'Method not allowed',
+      message: 'Only POST requests are supported'
+    });
+  }
+
+  if (scrapeJob.isRunning()) {
+    return res.status(409).json({
+      error: 'Scrape already running',
+      message: 'A refresh is already in progress'
+    });
+  }
+
+  if (!scrapeJob.resume()) {
+    return res.status(409).json({
+      error: 'Nothing to resume',
+      message: 'There is no paused refresh'
+    });
+  }
+
+  console.log('▶️ [REFRESH] Resumed paused scrape');
+
+  res.status(202).json({
+    message: 'Refresh resumed',
+    status: 'pending'
+  });
+}
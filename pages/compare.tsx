@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Check, Columns3, Link2, X } from 'lucide-react';
+
+import { ModelData, ApiResponse } from '@/lib/types';
+import { getTagName } from '@/lib/tagInfo';
+import {
+  parseCompareParam,
+  buildCompareUrl,
+  resolveCompareItems,
+  getComparisonRows
+} from '@/lib/compare';
+
+export default function Compare() {
+  const router = useRouter();
+  const refs = useMemo(() => parseCompareParam(router.query.models), [router.query.models]);
+
+  // State management
+  const [models, setModels] = useState<ModelData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Load the cached catalog once
+  useEffect(() => {
+    fetch('/api/models')
+      .then(response => response.json())
+      .then((data: ApiResponse) => setModels(data.models || []))
+      .catch(error => console.log('No data found:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const { items, missing } = useMemo(() => resolveCompareItems(models, refs), [models, refs]);
+  const rows = useMemo(() => getComparisonRows(items), [items]);
+
+  // Selection lives in the URL so comparisons can be shared
+  const updateRefs = (nextRefs: string[]) => {
+    router.replace(buildCompareUrl(nextRefs), undefined, { shallow: true });
+  };
+
+  const replaceRef = (index: number, ref: string) => {
+    updateRefs(refs.map((current, i) => i === index ? ref : current));
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="container mx-auto px-4 py-3">
+        {/* Header */}
+        <div className="flex justify-between items-center text-sm mb-6">
+          <Link href="/" className="inline-flex items-center text-zinc-400 hover:text-white transition-colors">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            <span>All models</span>
+          </Link>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={copyLink}
+            className="text-xs bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-white"
+          >
+            {linkCopied ? <Check className="h-3 w-3 mr-1 text-green-400" /> : <Link2 className="h-3 w-3 mr-1" />}
+            {linkCopied ? 'Copied' : 'Copy link'}
+          </Button>
+        </div>
+
+        <h1 className="text-3xl font-semibold text-white mb-2 flex items-center gap-2">
+          <Columns3 className="h-7 w-7 text-zinc-400" />
+          Compare models
+        </h1>
+
+        {missing.length > 0 && !loading && (
+          <p className="text-sm text-yellow-400 mb-4">
+            Not found in the cached catalog: {missing.join(', ')}
+          </p>
+        )}
+
+        {loading ? (
+          <div className="h-64 w-full bg-zinc-900 border border-zinc-800 rounded-lg animate-pulse mt-6"></div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-16 bg-zinc-900 rounded-lg border border-zinc-800 shadow-lg mt-6">
+            <h3 className="text-2xl font-medium text-white mb-3">Nothing to compare</h3>
+            <p className="text-zinc-400">Select models with the checkboxes in the main table, then click "Compare".</p>
+          </div>
+        ) : (
+          <div className="overflow-hidden bg-zinc-900 border border-zinc-800 rounded-lg shadow-xl mt-6">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-zinc-800 hover:bg-transparent bg-zinc-950">
+                    <TableHead className="py-2.5 text-zinc-300 font-medium w-40"></TableHead>
+                    {items.map(item => (
+                      <TableHead key={item.ref} className="py-2.5 align-top">
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="flex flex-col gap-1.5">
+                            <Link href={`/models/${encodeURIComponent(item.model.name)}`} className="font-medium text-white hover:underline">
+                              {item.model.name}
+                            </Link>
+                            {/* Compare the whole model or one of its tags */}
+                            <select
+                              value={item.version ? item.ref : item.model.name}
+                              onChange={(e) => replaceRef(refs.indexOf(item.ref), e.target.value)}
+                              className="h-7 rounded-md border border-zinc-800 bg-zinc-950 px-2 text-xs text-zinc-300 font-normal"
+                            >
+                              <option value={item.model.name}>All tags</option>
+                              {item.model.versions.map(version => (
+                                <option key={version.name} value={`${item.model.name}:${getTagName(version)}`}>
+                                  {getTagName(version)}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => updateRefs(refs.filter(ref => ref !== item.ref))}
+                            className="h-6 w-6 text-zinc-500 hover:text-white hover:bg-zinc-800"
+                            aria-label={`Remove ${item.ref}`}
+                          >
+                            <X className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.label} className="border-zinc-800 hover:bg-zinc-800/30">
+                      <TableCell className="py-2.5 text-sm text-zinc-400 font-medium">{row.label}</TableCell>
+                      {row.values.map((value, index) => (
+                        <TableCell
+                          key={index}
+                          className={`py-2.5 text-sm whitespace-normal ${row.differs ? 'bg-amber-950/30 text-amber-100' : 'text-white'}`}
+                        >
+                          {value}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <p className="mt-3 text-xs text-zinc-500">Highlighted rows differ between the compared models.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
 
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -10,33 +12,53 @@ import {
   ArrowUpDown, 
   ArrowUp, 
   ArrowDown, 
-  Code2, 
   Brain, 
   Gauge, 
   Tag, 
   Clock, 
-  ImageIcon, 
-  MessagesSquare,
-  Sparkles,
+  Columns3,
+  Cpu,
   Database,
   Github,
+  HardDrive,
+  ArrowUpCircle,
+  Star,
   RefreshCw,
-  Info
+  Info,
+  Pause,
+  Play,
+  Square
 } from 'lucide-react';
 
-import { ModelData, ModelVersion, ApiResponse, ScrapingLog } from '@/lib/types';
-import { scrapeOllamaModels } from '@/lib/clientScraper';
+import { ModelData, ApiResponse, ScrapingLog, ScrapeFailure, CacheStorageKind, CatalogSource, RefreshState, RefreshEvent, LocalModelsResponse } from '@/lib/types';
+import { parseQuery, QuerySyntaxError } from '@/lib/query';
+import { SortField, SortDirection, createModelIndex, filterModelIndex, applyTagFilter } from '@/lib/modelFilters';
+import { HardwareProfile, ModelFit, FitFilter, DEFAULT_HARDWARE_PROFILE, getModelFit, loadHardwareProfile, saveHardwareProfile } from '@/lib/hardware';
+import { TagFilter, EMPTY_TAG_FILTER, getTagInfo } from '@/lib/tagInfo';
+import { getModelSizes, getParameterRange, getMaxContext } from '@/lib/modelSummary';
+import { buildCompareUrl } from '@/lib/compare';
+import { ChangesResponse } from '@/lib/catalogDiff';
+import { InstallFilter, getLocalModelStatus, formatDiskSize } from '@/lib/localModels';
+import { loadWatchlist, saveWatchlist } from '@/lib/watchlist';
+import { ViewState, parseViewState, buildViewQuery } from '@/lib/viewState';
+import { useDebouncedValue } from '@/lib/useDebouncedValue';
+import { useVirtualRows } from '@/lib/useVirtualRows';
+import { getCapabilityIcon } from '@/components/capability-icon';
+import { TagFilterPanel } from '@/components/tag-filter-panel';
+import { HardwarePanel } from '@/components/hardware-panel';
+import { WhatsNewPanel } from '@/components/whats-new-panel';
+import { ExportMenu } from '@/components/export-menu';
+import { ImportMenu } from '@/components/import-menu';
+import { LocalModelsPanel } from '@/components/local-models-panel';
+import { WatchlistNotification } from '@/components/watchlist-notification';
+import { CopyLinkButton } from '@/components/copy-link-button';
+import { TablePagination } from '@/components/table-pagination';
 
-type SortField = 'name' | 'capabilities' | 'versions' | 'size' | 'context';
-type SortDirection = 'asc' | 'desc';
-
-// Mapping capabilities to their appropriate icons
-const CAPABILITY_ICONS: Record<string, React.ReactNode> = {
-  'vision': <ImageIcon className="w-3.5 h-3.5" />,
-  'image': <ImageIcon className="w-3.5 h-3.5" />,
-  'chat': <MessagesSquare className="w-3.5 h-3.5" />,
-  'code': <Code2 className="w-3.5 h-3.5" />,
-  'embedding': <Brain className="w-3.5 h-3.5" />,
+// A view query without its search term, to tell search typing apart from other changes
+const withoutSearch = (query: string) => {
+  const params = new URLSearchParams(query);
+  params.delete('q');
+  return params.toString();
 };
 
 export default function Home() {
@@ -46,13 +68,33 @@ export default function Home() {
   const [refreshing, setRefreshing] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
   const [cacheAge, setCacheAge] = useState<number | null>(null);
+  const [storageKind, setStorageKind] = useState<CacheStorageKind>('memory');
+  const [catalogSource, setCatalogSource] = useState<CatalogSource | null>(null);
   const [isPending, setIsPending] = useState(false);
+  const [refreshState, setRefreshState] = useState<RefreshState>('idle');
+  const [savePartial, setSavePartial] = useState(false);
   const [logs, setLogs] = useState<ScrapingLog[]>([]);
+  const [failures, setFailures] = useState<ScrapeFailure[]>([]);
   const [progress, setProgress] = useState<{current: number; total: number; currentTask: string} | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [sortField, setSortField] = useState<SortField>('name');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
   const [activeCapabilityFilter, setActiveCapabilityFilter] = useState<string | null>(null);
+  const [hardwareProfile, setHardwareProfile] = useState<HardwareProfile>(DEFAULT_HARDWARE_PROFILE);
+  const [fitFilter, setFitFilter] = useState<FitFilter>('all');
+  const [tagFilter, setTagFilter] = useState<TagFilter>(EMPTY_TAG_FILTER);
+  const [compareSelection, setCompareSelection] = useState<string[]>([]);
+  const [changes, setChanges] = useState<ChangesResponse | null>(null);
+  const [localModels, setLocalModels] = useState<LocalModelsResponse | null>(null);
+  const [checkingLocal, setCheckingLocal] = useState(false);
+  const [installFilter, setInstallFilter] = useState<InstallFilter>('all');
+  const [watchlist, setWatchlist] = useState<string[]>([]);
+  const [watchlistOnly, setWatchlistOnly] = useState(false);
+  // Rows per page; 0 shows every row in one virtualized list
+  const [pageSize, setPageSize] = useState(0);
+  const [page, setPage] = useState(0);
+
+  const router = useRouter();
 
   // Data fetching function
   const fetchModels = async () => {
@@ -62,8 +104,12 @@ export default function Home() {
       setModels(data.models || []);
       setLastUpdated(data.lastUpdated || null);
       setCacheAge(data.cacheAgeMinutes || null);
+      setStorageKind(data.storage || 'memory');
+      setCatalogSource(data.source || null);
       setIsPending(data.status === 'pending');
+      setRefreshState(data.refreshState || 'idle');
       setLogs(data.logs || []);
+      setFailures(data.failures || []);
       setProgress(data.progress || null);
       return data.status;
     } catch (error) {
@@ -72,86 +118,232 @@ export default function Home() {
     }
   };
 
-  // Polling function for when data is pending
-  const pollForUpdates = async (startTime: number = Date.now(), maxDuration: number = 60000) => {
-    const status = await fetchModels();
-    const elapsed = Date.now() - startTime;
-    
-    if (status === 'pending' && elapsed < maxDuration) {
-      // Continue polling every 5 seconds for up to 1 minute
-      setTimeout(() => pollForUpdates(startTime, maxDuration), 5000);
-    } else {
-      // Data is ready, error, or max time exceeded - stop polling
-      if (elapsed >= maxDuration && status === 'pending') {
-        console.log('Polling stopped after 1 minute, but scraping may still complete');
+  // Fetch the differences between the last two refreshes
+  const fetchChanges = async () => {
+    try {
+      const response = await fetch('/api/changes');
+      if (response.ok) {
+        setChanges(await response.json());
       }
-      setRefreshing(false);
+    } catch (error) {
+      console.log('No changes found:', error);
     }
   };
 
-  // Refresh data using client-side scraping
-  const refreshData = async () => {
+  // Ask the server which models the configured Ollama instance has pulled
+  const fetchLocalModels = async () => {
+    setCheckingLocal(true);
+    try {
+      const response = await fetch('/api/local-models');
+      if (response.ok) {
+        setLocalModels(await response.json());
+      }
+    } catch (error) {
+      console.log('Local models unavailable:', error);
+    } finally {
+      setCheckingLocal(false);
+    }
+  };
+
+  // True while this tab follows a running refresh over the event stream
+  const followingRef = useRef(false);
+
+  // A refresh ended (completed, stopped or failed): load the new catalog once
+  const finishRefresh = () => {
+    followingRef.current = false;
+    setRefreshing(false);
+    fetchModels().then(() => fetchChanges());
+  };
+
+  // Ask the server to start a scrape (incremental unless full), then follow its progress
+  const refreshData = async (full: boolean = false) => {
     setRefreshing(true);
     setLogs([]);
     setProgress(null);
     
     try {
-      const limit = Infinity; // Or get from user input
-      
-      const onProgress = (message: string, current?: number, total?: number) => {
-        const log = {
-          timestamp: new Date(),
-          message,
-          type: 'info' as const
-        };
-        setLogs(prev => [...prev.slice(-19), log]); // Keep last 20 logs
-        
-        if (current !== undefined && total !== undefined) {
-          setProgress({
-            current: Math.round((current / total) * 100),
-            total: 100,
-            currentTask: message.includes(':') ? message.split(':')[1].trim() : message
-          });
-        }
-      };
-      
-      // Perform client-side scraping
-      const scrapedModels = await scrapeOllamaModels(limit, onProgress);
-      
-      // Send scraped data to server for caching
-      const cacheResponse = await fetch('/api/cache-models', {
+      const response = await fetch('/api/refresh', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ models: scrapedModels, limit })
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ full })
       });
       
-      if (cacheResponse.ok) {
-        // Refresh the UI with new data
-        await fetchModels();
-        onProgress('✅ Data cached successfully!');
-      } else {
-        throw new Error('Failed to cache scraped data');
+      // 409 means a refresh is already running - the event stream follows it either way
+      if (!response.ok && response.status !== 409) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || `HTTP ${response.status}`);
+      }
+      if (response.status === 409) {
+        setRefreshing(false);
       }
-      
     } catch (error: any) {
-      console.error('Error during client-side scraping:', error);
+      console.error('Error starting refresh:', error);
       const errorLog = {
         timestamp: new Date(),
-        message: `❌ Scraping failed: ${error.message}`,
+        message: `❌ Refresh failed: ${error.message}`,
         type: 'error' as const
       };
       setLogs(prev => [...prev, errorLog]);
-    } finally {
       setRefreshing(false);
-      setProgress(null);
     }
   };
 
+  // Cancel, pause or resume the server-side refresh
+  const controlRefresh = async (action: 'cancel' | 'pause' | 'resume') => {
+    try {
+      const response = await fetch(`/api/refresh/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'resume' ? {} : { savePartial })
+      });
+      
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || `HTTP ${response.status}`);
+      }
+      
+      // The event stream reports the new state
+    } catch (error: any) {
+      console.error(`Error trying to ${action} refresh:`, error);
+      setLogs(prev => [...prev, {
+        timestamp: new Date(),
+        message: `❌ Could not ${action} refresh: ${error.message}`,
+        type: 'error' as const
+      }]);
+    }
+  };
+
+  // Add or remove a model from the comparison selection
+  const toggleCompare = (name: string) => {
+    setCompareSelection(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
+  // Replace the whole view (search, filters, sort), e.g. from the URL
+  const applyViewState = (view: ViewState) => {
+    setSearchTerm(view.search);
+    setActiveCapabilityFilter(view.capability);
+    setSortField(view.sortField);
+    setSortDirection(view.sortDirection);
+    setFitFilter(view.fitFilter);
+    setInstallFilter(view.installFilter);
+    setWatchlistOnly(view.watchlistOnly);
+    setTagFilter(view.tagFilter);
+  };
+
+  // Star or unstar a model and persist the watchlist
+  const toggleWatch = (name: string) => {
+    const next = watchlist.includes(name) ? watchlist.filter(n => n !== name) : [...watchlist, name];
+    setWatchlist(next);
+    saveWatchlist(next);
+  };
+
+  // Update and persist the hardware profile
+  const updateHardwareProfile = (profile: HardwareProfile) => {
+    setHardwareProfile(profile);
+    saveHardwareProfile(profile);
+  };
+
   // Initial data fetching
   useEffect(() => {
-    fetchModels().finally(() => setInitialLoading(false));
+    setHardwareProfile(loadHardwareProfile());
+    setWatchlist(loadWatchlist());
+    fetchLocalModels();
+
+    fetchModels()
+      .then(status => {
+        if (status !== 'pending') fetchChanges();
+      })
+      .finally(() => setInitialLoading(false));
+  }, []);
+
+  // Restore the view from the URL on load, and again on back/forward navigation
+  const viewRestoredRef = useRef(false);
+  useEffect(() => {
+    if (!router.isReady || viewRestoredRef.current) return;
+    viewRestoredRef.current = true;
+    applyViewState(parseViewState(router.query));
+  }, [router.isReady]);
+
+  useEffect(() => {
+    const onPopState = () => {
+      applyViewState(parseViewState(Object.fromEntries(new URLSearchParams(window.location.search))));
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  // Filter on the search text (and update the URL) only once typing pauses
+  const debouncedSearchTerm = useDebouncedValue(searchTerm, 200);
+
+  // Query string for the current view
+  const viewQuery = useMemo(() => buildViewQuery({
+    search: debouncedSearchTerm,
+    capability: activeCapabilityFilter,
+    sortField,
+    sortDirection,
+    fitFilter,
+    installFilter,
+    watchlistOnly,
+    tagFilter
+  }), [debouncedSearchTerm, activeCapabilityFilter, sortField, sortDirection, fitFilter, installFilter, watchlistOnly, tagFilter]);
+
+  // Keep the URL in sync with the view. Typing in the search box replaces the
+  // history entry; other changes add one so back/forward steps through them.
+  // While a search is still debouncing (also right after restoring a view from the
+  // URL) the query is out of date, so syncing waits for it.
+  const lastViewQueryRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!viewRestoredRef.current || searchTerm !== debouncedSearchTerm) return;
+    const previous = lastViewQueryRef.current;
+    lastViewQueryRef.current = viewQuery;
+    if (viewQuery === window.location.search.replace(/^\?/, '')) return;
+
+    // The first sync only normalizes the URL the page was opened with
+    const url = viewQuery ? `/?${viewQuery}` : '/';
+    if (previous === null || withoutSearch(previous) === withoutSearch(viewQuery)) {
+      router.replace(url, undefined, { shallow: true, scroll: false });
+    } else {
+      router.push(url, undefined, { shallow: true, scroll: false });
+    }
+  }, [viewQuery, searchTerm]);
+
+  // Follow refreshes over Server-Sent Events, so every open tab shows the same progress
+  useEffect(() => {
+    const source = new EventSource('/api/refresh/events');
+    const on = <T extends RefreshEvent['type']>(type: T, handler: (event: Extract<RefreshEvent, { type: T }>) => void) => {
+      source.addEventListener(type, (message) => handler(JSON.parse((message as MessageEvent).data)));
+    };
+
+    on('snapshot', event => {
+      setRefreshState(event.refreshState);
+      if (event.refreshState === 'running') {
+        // Joined a running refresh (or reconnected during one)
+        followingRef.current = true;
+        setIsPending(true);
+        setLogs(event.logs);
+        setProgress(event.progress || null);
+      } else if (followingRef.current) {
+        // The refresh ended while the stream was reconnecting
+        finishRefresh();
+      }
+    });
+    on('started', () => {
+      followingRef.current = true;
+      setRefreshState('running');
+      setIsPending(true);
+      setLogs([]);
+      setProgress(null);
+    });
+    on('log', event => setLogs(prev => [...prev, event.log].slice(-20)));
+    on('progress', event => setProgress(event.progress));
+    on('complete', () => finishRefresh());
+    on('stopped', event => {
+      setRefreshState(event.refreshState);
+      if (followingRef.current) finishRefresh();
+    });
+    on('failed', () => finishRefresh());
+
+    return () => source.close();
   }, []);
 
   // Extract unique capabilities across all models for filtering
@@ -183,127 +375,99 @@ export default function Home() {
       : <ArrowDown className="ml-2 h-4 w-4 text-blue-500" />;
   };
 
-  // Size parser for consistent comparison
-  const parseSize = (sizeStr: string): number => {
-    if (!sizeStr) return 0;
-    const num = parseFloat(sizeStr.replace(/[^0-9.]/g, ''));
-    if (sizeStr.toLowerCase().includes('tb')) return num * 1000;
-    if (sizeStr.toLowerCase().includes('kb')) return num / 1000;
-    return num; // Assume GB by default
-  };
+  // Quantizations and variants available across all tags
+  const tagOptions = useMemo(() => {
+    const quantizations = new Set<string>();
+    const variants = new Set<string>();
+    models.forEach(model => {
+      model.versions.forEach(version => {
+        const info = getTagInfo(version);
+        if (info.quantization) quantizations.add(info.quantization);
+        if (info.variant) variants.add(info.variant);
+      });
+    });
+    return {
+      quantizations: Array.from(quantizations).sort(),
+      variants: Array.from(variants).sort()
+    };
+  }, [models]);
 
-  // Context window parser for consistent comparison
-  const parseContext = (contextStr: string): number => {
-    if (!contextStr) return 0;
-    const num = parseInt(contextStr.replace(/[^0-9]/g, ''));
-    if (contextStr.toLowerCase().includes('k')) return num;
-    if (contextStr.toLowerCase().includes('m')) return num * 1000;
-    return num / 1000; // Default to K for comparison
-  };
+  // Restrict each model to the tags matching the tag filter
+  const tagFilteredModels = useMemo(() => applyTagFilter(models, tagFilter), [models, tagFilter]);
 
-  // Advanced filtering and sorting
-  const filteredAndSortedModels = useMemo(() => {
-    // Step 1: Filter by search term and capability filter
-    let filtered = models.filter((model: ModelData) => {
-      const searchLower = searchTerm.toLowerCase();
-      
-      // Special search terms
-      const isSmallestSearch = searchLower.includes('small') || searchLower.includes('tiny');
-      const isLargestSearch = searchLower.includes('large') || searchLower.includes('big');
-      const isLatestSearch = searchLower.includes('latest') || searchLower.includes('newest') || searchLower.includes('recent');
-      const isContextSearch = searchLower.includes('context');
-      
-      // Basic field matching
-      const nameMatch = model.name.toLowerCase().includes(searchLower);
-      const descMatch = model.description.toLowerCase().includes(searchLower);
-      const capMatch = model.capabilities.some(cap => cap.toLowerCase().includes(searchLower));
-      
-      // Advanced semantic matching
-      const hasLatest = model.versions.some(v => v.isLatest);
-      const hasVersions = model.versions.length > 0;
-      
-      // Active capability filter
-      const passesCapabilityFilter = !activeCapabilityFilter || 
-        model.capabilities.some(cap => cap.toLowerCase() === activeCapabilityFilter);
-
-      return (
-        // Must pass capability filter if one is active
-        passesCapabilityFilter && (
-          // Either matches basic fields
-          nameMatch || descMatch || capMatch ||
-          // Or matches special semantic search terms
-          (isSmallestSearch && hasVersions) ||
-          (isLargestSearch && hasVersions) ||
-          (isContextSearch && hasVersions) ||
-          (isLatestSearch && hasLatest)
-        )
-      );
-    });
+  // Hardware fit per model for the current profile
+  const modelFits = useMemo(() => {
+    const fits = new Map<string, ModelFit>();
+    if (hardwareProfile.enabled) {
+      tagFilteredModels.forEach(model => fits.set(model.name, getModelFit(model, hardwareProfile)));
+    }
+    return fits;
+  }, [tagFilteredModels, hardwareProfile]);
 
-    // Step 2: Apply sorting
-    return filtered.sort((a: ModelData, b: ModelData) => {
-      let aValue: any;
-      let bValue: any;
-
-      switch (sortField) {
-        case 'name':
-          aValue = a.name.toLowerCase();
-          bValue = b.name.toLowerCase();
-          break;
-        case 'capabilities':
-          aValue = a.capabilities.length;
-          bValue = b.capabilities.length;
-          break;
-        case 'versions':
-          aValue = a.versions.length;
-          bValue = b.versions.length;
-          break;
-        case 'size':
-          const aSizes = a.versions.map(v => parseSize(v.size)).filter(s => s > 0);
-          const bSizes = b.versions.map(v => parseSize(v.size)).filter(s => s > 0);
-          aValue = aSizes.length > 0 ? Math.min(...aSizes) : 0;
-          bValue = bSizes.length > 0 ? Math.min(...bSizes) : 0;
-          break;
-        case 'context':
-          const aContexts = a.versions.map(v => parseContext(v.context)).filter(c => c > 0);
-          const bContexts = b.versions.map(v => parseContext(v.context)).filter(c => c > 0);
-          aValue = aContexts.length > 0 ? Math.max(...aContexts) : 0;
-          bValue = bContexts.length > 0 ? Math.max(...bContexts) : 0;
-          break;
-        default:
-          aValue = a.name;
-          bValue = b.name;
+  // Installed tags, disk usage and available updates per model
+  const localStatus = useMemo(
+    () => getLocalModelStatus(models, localModels?.available ? localModels.models : []),
+    [models, localModels]
+  );
+
+  // Parse the search box into a query tree (syntax errors are shown under the input)
+  const { parsedQuery, queryError } = useMemo(() => {
+    try {
+      return { parsedQuery: parseQuery(debouncedSearchTerm), queryError: null };
+    } catch (error) {
+      if (error instanceof QuerySyntaxError) {
+        return { parsedQuery: null, queryError: error.message };
       }
+      throw error;
+    }
+  }, [debouncedSearchTerm]);
 
-      if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
-      return 0;
-    });
-  }, [models, searchTerm, sortField, sortDirection, activeCapabilityFilter]);
+  // Sort orders are computed once per catalog (and hardware profile), not on every keystroke
+  const modelIndex = useMemo(() => createModelIndex(tagFilteredModels, modelFits), [tagFilteredModels, modelFits]);
 
-  // Helper to get model size range for display
-  const getModelSizes = (versions: ModelVersion[]) => {
-    const sizes = versions.map(v => v.size).filter(s => s && s !== '');
-    if (sizes.length === 0) return 'N/A';
-    if (sizes.length === 1) return sizes[0];
-    
-    // Sort sizes numerically for proper min/max
-    const numericSizes = sizes.map(s => parseSize(s));
-    const minSize = sizes[numericSizes.indexOf(Math.min(...numericSizes))];
-    const maxSize = sizes[numericSizes.indexOf(Math.max(...numericSizes))];
-    
-    return minSize === maxSize ? minSize : `${minSize} – ${maxSize}`;
-  };
+  // Advanced filtering and sorting
+  const filteredAndSortedModels = useMemo(() => filterModelIndex(modelIndex, {
+    query: parsedQuery,
+    capability: activeCapabilityFilter,
+    fitFilter,
+    installed: localModels?.available ? localStatus : undefined,
+    installFilter,
+    watchlist: watchlistOnly ? new Set(watchlist) : undefined,
+    sortField,
+    sortDirection
+  }), [modelIndex, parsedQuery, sortField, sortDirection, activeCapabilityFilter, fitFilter, localModels, localStatus, installFilter, watchlistOnly, watchlist]);
 
-  // Helper to get maximum context window for display
-  const getMaxContext = (versions: ModelVersion[]) => {
-    const contexts = versions.map(v => v.context).filter(c => c && c !== '');
-    if (contexts.length === 0) return 'N/A';
-    
-    // Find max context window
-    const numericContexts = contexts.map(c => parseContext(c));
-    return contexts[numericContexts.indexOf(Math.max(...numericContexts))];
-  };
+  // Rows of the current page (all rows without pagination)
+  const pageModels = useMemo(
+    () => pageSize > 0 ? filteredAndSortedModels.slice(page * pageSize, (page + 1) * pageSize) : filteredAndSortedModels,
+    [filteredAndSortedModels, page, pageSize]
+  );
+
+  // Only the rows scrolled into view are rendered
+  const virtualRows = useVirtualRows(pageModels.length);
+  const tableContainerRef = useRef<HTMLDivElement | null>(null);
+  const { containerRef: setVirtualContainer } = virtualRows;
+  const setTableContainer = useCallback((element: HTMLDivElement | null) => {
+    tableContainerRef.current = element;
+    setVirtualContainer(element);
+  }, [setVirtualContainer]);
+  const tableColumnCount = hardwareProfile.enabled ? 9 : 8;
+
+  // A new search, filter, sort or page size starts at the first page. Starring a model or
+  // rechecking local models also changes the results, but keeps the page.
+  useEffect(() => {
+    setPage(0);
+  }, [debouncedSearchTerm, activeCapabilityFilter, fitFilter, installFilter, watchlistOnly, tagFilter, sortField, sortDirection, pageSize]);
+
+  // Stay on the last page when rows drop out of it (e.g. unstarring in the watchlist view)
+  const lastPage = pageSize > 0 ? Math.max(0, Math.ceil(filteredAndSortedModels.length / pageSize) - 1) : 0;
+  useEffect(() => {
+    if (page > lastPage) setPage(lastPage);
+  }, [page, lastPage]);
+
+  useEffect(() => {
+    tableContainerRef.current?.scrollTo({ top: 0 });
+  }, [page, pageSize, debouncedSearchTerm, activeCapabilityFilter, fitFilter, installFilter, watchlistOnly, tagFilter, sortField, sortDirection]);
 
   // Helper to format relative time
   const getRelativeTime = (dateString: string) => {
@@ -322,19 +486,52 @@ export default function Home() {
     return `${Math.floor(diffDays / 365)} years ago`;
   };
 
-  // Display proper icon for capability
-  const getCapabilityIcon = (capability: string) => {
-    const lowerCap = capability.toLowerCase();
+  // Installed tags with their disk usage, and a hint when ollama.com has newer uploads
+  const renderLocalStatus = (name: string) => {
+    const status = localStatus.get(name)!;
+    return (
+      <div className="flex flex-wrap gap-1 mt-1">
+        <Badge
+          variant="outline"
+          title={`Installed: ${status.tags.join(', ')}`}
+          className="bg-green-950 text-green-300 border-green-800 flex items-center gap-1 text-xs"
+        >
+          <HardDrive className="h-3 w-3" />
+          {status.tags.length === 1 ? status.tags[0] : `${status.tags.length} tags`} · {formatDiskSize(status.diskBytes)}
+        </Badge>
+        {status.outdatedTags.length > 0 && (
+          <Badge
+            variant="outline"
+            title={`Updated on ollama.com since pulled: ${status.outdatedTags.join(', ')}`}
+            className="bg-amber-950 text-amber-300 border-amber-800 flex items-center gap-1 text-xs"
+          >
+            <ArrowUpCircle className="h-3 w-3" />
+            Update available
+          </Badge>
+        )}
+      </div>
+    );
+  };
+
+  // Hardware fit badge with the largest version that fits
+  const renderFit = (fit?: ModelFit) => {
+    if (!fit) return null;
     
-    // Check for each capability type
-    for (const [key, icon] of Object.entries(CAPABILITY_ICONS)) {
-      if (lowerCap.includes(key)) {
-        return icon;
-      }
-    }
+    const styles = {
+      fits: 'bg-green-950 text-green-300 border-green-800',
+      partial: 'bg-yellow-950 text-yellow-300 border-yellow-800',
+      none: 'bg-zinc-800 text-zinc-400 border-zinc-700'
+    };
+    const labels = { fits: 'Fits', partial: 'Partial', none: 'Too large' };
     
-    // Default icon if no specific one is found
-    return <Sparkles className="w-3.5 h-3.5" />;
+    return (
+      <div className="flex items-center gap-2">
+        <Badge className={`${styles[fit.level]} text-xs`}>{labels[fit.level]}</Badge>
+        {fit.largestFit && (
+          <span className="font-mono text-xs text-zinc-400">{fit.largestFit.name} · {fit.largestFit.size}</span>
+        )}
+      </div>
+    );
   };
 
   // Loading state
@@ -431,23 +628,104 @@ export default function Home() {
                 </div>
               )}
               
+              {/* Catalog import */}
+              <ImportMenu
+                disabled={refreshing || isPending}
+                onImported={() => fetchModels().then(fetchChanges)}
+              />
+              
               {/* Refresh button */}
               <Button
                 variant="outline"
                 size="sm"
-                onClick={refreshData}
+                onClick={() => refreshData()}
                 disabled={refreshing || isPending}
+                title="Fetch new and changed models"
                 className="text-xs bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-white disabled:opacity-50"
               >
                 <RefreshCw className={`h-3 w-3 mr-1 ${(refreshing || isPending) ? 'animate-spin' : ''}`} />
                 {isPending ? 'Updating...' : refreshing ? 'Starting...' : 'Refresh Data'}
               </Button>
+              
+              {/* Full refresh refetches every model's details */}
+              {models.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => refreshData(true)}
+                  disabled={refreshing || isPending}
+                  title="Refetch the details of every model"
+                  className="text-xs bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-900 hover:text-white disabled:opacity-50"
+                >
+                  Full
+                </Button>
+              )}
             </div>
           </div>
           
+          {/* Paused refresh */}
+          {refreshState === 'paused' && !isPending && (
+            <div className="mb-4 flex flex-wrap items-center gap-2 bg-zinc-900 border border-zinc-800 rounded-lg px-4 py-2.5 text-sm text-zinc-300">
+              <Pause className="h-4 w-4 text-yellow-400" />
+              <span>Refresh paused. Resume continues from the next unprocessed model.</span>
+              <div className="ml-auto flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => controlRefresh('resume')}
+                  className="h-7 text-xs bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-white"
+                >
+                  <Play className="h-3 w-3 mr-1" />
+                  Resume
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => controlRefresh('cancel')}
+                  className="h-7 text-xs bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-900 hover:text-white"
+                >
+                  Discard
+                </Button>
+              </div>
+            </div>
+          )}
+          
           {/* Progress and Logs Display - only show during active scraping */}
           {(isPending || refreshing) && (
             <div className="mb-4 bg-zinc-900 border border-zinc-800 rounded-lg p-4">
+              {/* Refresh controls */}
+              {isPending && refreshState === 'running' && (
+                <div className="flex flex-wrap items-center justify-end gap-2 mb-3 text-xs text-zinc-400">
+                  <label className="flex items-center gap-1.5 mr-auto">
+                    <input
+                      type="checkbox"
+                      checked={savePartial}
+                      onChange={(e) => setSavePartial(e.target.checked)}
+                      className="accent-white"
+                    />
+                    Keep models fetched so far when stopping
+                  </label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => controlRefresh('pause')}
+                    className="h-7 text-xs bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-white"
+                  >
+                    <Pause className="h-3 w-3 mr-1" />
+                    Pause
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => controlRefresh('cancel')}
+                    className="h-7 text-xs bg-transparent border-red-900 text-red-300 hover:bg-red-950 hover:text-red-200"
+                  >
+                    <Square className="h-3 w-3 mr-1" />
+                    Cancel
+                  </Button>
+                </div>
+              )}
+              
               {/* Progress Bar */}
               {progress && isPending && (
                 <div className="mb-3">
@@ -491,24 +769,40 @@ export default function Home() {
             </div>
           )}
           
+          {/* Changes since the previous refresh */}
+          <WatchlistNotification changes={changes} watchlist={watchlist} />
+          <WhatsNewPanel changes={changes} />
+          
           {/* Search */}
           <div className="mb-2">
             
-            <div className="w-full max-w-xl mx-auto relative mb-4">
-              <div className="absolute left-4 top-1/2 -translate-y-1/2 text-zinc-500">
-                <Search className="h-5 w-5" />
-              </div>
-              <Input
-                placeholder="Search models..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-12 pr-24 h-9 text-sm bg-zinc-900 border-zinc-800 text-white rounded-md shadow-lg focus-visible:ring-1 focus-visible:ring-white focus-visible:border-transparent"
-              />
-              <div className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-zinc-500">
-                {filteredAndSortedModels.length} of {models.length}
+            <div className="w-full max-w-xl mx-auto flex items-center gap-2 mb-4">
+              <div className="relative flex-1">
+                <div className="absolute left-4 top-1/2 -translate-y-1/2 text-zinc-500">
+                  <Search className="h-5 w-5" />
+                </div>
+                <Input
+                  placeholder="Search models... e.g. cap:vision size<8GB ctx>=128k"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  aria-invalid={queryError !== null}
+                  className="pl-12 pr-24 h-9 text-sm bg-zinc-900 border-zinc-800 text-white rounded-md shadow-lg focus-visible:ring-1 focus-visible:ring-white focus-visible:border-transparent"
+                />
+                <div className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-zinc-500">
+                  {filteredAndSortedModels.length} of {models.length}
+                </div>
               </div>
+              <ExportMenu models={filteredAndSortedModels} />
+              <CopyLinkButton />
             </div>
             
+            {/* Query syntax error */}
+            {queryError && (
+              <div className="w-full max-w-xl mx-auto -mt-2 mb-4 text-xs text-red-400">
+                {queryError}
+              </div>
+            )}
+            
             {/* Capability filters */}
             <div className="flex flex-wrap items-center justify-center gap-1.5 mb-5">
               <Button
@@ -531,8 +825,70 @@ export default function Home() {
                   <span className="capitalize">{capability}</span>
                 </Button>
               ))}
+              <span className="w-px h-5 bg-zinc-800 mx-1" />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setWatchlistOnly(!watchlistOnly)}
+                aria-pressed={watchlistOnly}
+                className={`rounded-full text-xs font-medium gap-1 px-3 py-0.5 h-7 ${watchlistOnly ? 'bg-zinc-700 hover:bg-zinc-600 text-white border-zinc-600' : 'bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-900 hover:text-white'}`}
+              >
+                <Star className={`h-3.5 w-3.5 ${watchlistOnly ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+                Watchlist ({watchlist.length})
+              </Button>
             </div>
             
+            {/* Tag filters */}
+            <TagFilterPanel
+              filter={tagFilter}
+              onFilterChange={setTagFilter}
+              quantizations={tagOptions.quantizations}
+              variants={tagOptions.variants}
+            />
+            
+            {/* Hardware profile */}
+            <HardwarePanel
+              profile={hardwareProfile}
+              onProfileChange={updateHardwareProfile}
+              fitFilter={fitFilter}
+              onFitFilterChange={setFitFilter}
+            />
+            
+            {/* Local Ollama installation */}
+            <LocalModelsPanel
+              local={localModels}
+              checking={checkingLocal}
+              onRecheck={fetchLocalModels}
+              installFilter={installFilter}
+              onInstallFilterChange={setInstallFilter}
+            />
+            
+            {/* Comparison selection */}
+            {compareSelection.length > 0 && (
+              <div className="flex items-center justify-center gap-2 text-xs text-zinc-400 mb-3">
+                <span>{compareSelection.length} selected</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  asChild
+                  className="h-7 text-xs bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-white"
+                >
+                  <Link href={buildCompareUrl(compareSelection)}>
+                    <Columns3 className="h-3 w-3 mr-1" />
+                    Compare
+                  </Link>
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCompareSelection([])}
+                  className="h-7 text-xs bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-900 hover:text-white"
+                >
+                  Clear
+                </Button>
+              </div>
+            )}
+            
             {/* Filtered by indicator */}
             {activeCapabilityFilter && (
               <div className="text-center text-xs text-zinc-400 mb-3">
@@ -549,14 +905,23 @@ export default function Home() {
                 <Search className="h-8 w-8 text-zinc-500" />
               </div>
               <h3 className="text-2xl font-medium text-white mb-3">No Models Loaded</h3>
-              <p className="text-zinc-400 mb-8">Click the "Refresh Data" button above to load models from Ollama.com</p>
+              <p className="text-zinc-400 mb-8">Click the "Refresh Data" button above to load models from Ollama.com, or "Import" a catalog JSON file</p>
             </div>
           ) : filteredAndSortedModels.length > 0 ? (
             <div className="overflow-hidden bg-zinc-900 border border-zinc-800 rounded-lg shadow-xl">
-              <div className="overflow-x-auto">
+              {/* This div scrolls (the table's own container must not), so the header can stick */}
+              <div
+                ref={setTableContainer}
+                className="max-h-[75vh] overflow-auto [&_[data-slot=table-container]]:overflow-visible">
                 <Table>
-                  <TableHeader>
+                  <TableHeader className="sticky top-0 z-10">
                     <TableRow className="border-zinc-800 hover:bg-transparent bg-zinc-950">
+                      <TableHead className="py-2.5 w-8">
+                        <span className="sr-only">Select for comparison</span>
+                      </TableHead>
+                      <TableHead className="py-2.5 w-8">
+                        <span className="sr-only">Watch</span>
+                      </TableHead>
                       <TableHead
                         className="cursor-pointer py-2.5 text-zinc-300 font-medium hover:text-white transition-colors"
                         onClick={() => handleSort('name')}
@@ -594,21 +959,58 @@ export default function Home() {
                           <span>Context</span> {getSortIcon('context')}
                         </div>
                       </TableHead>
+                      {hardwareProfile.enabled && (
+                        <TableHead
+                          className="cursor-pointer py-2.5 text-zinc-300 font-medium hover:text-white transition-colors"
+                          onClick={() => handleSort('fit')}
+                        >
+                          <div className="flex items-center">
+                            <Cpu className="mr-2 h-4 w-4 text-zinc-400" />
+                            <span>Fit</span> {getSortIcon('fit')}
+                          </div>
+                        </TableHead>
+                      )}
                       <TableHead className="text-right py-2.5 text-zinc-300 font-medium">
                         Link
                       </TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredAndSortedModels.map((model, index) => (
+                    {virtualRows.paddingTop > 0 && (
+                      <tr aria-hidden="true" style={{ height: virtualRows.paddingTop }}>
+                        <td colSpan={tableColumnCount} />
+                      </tr>
+                    )}
+                    {pageModels.slice(virtualRows.start, virtualRows.end).map(model => (
                       <TableRow 
-                        key={index} 
+                        key={model.name} 
+                        ref={virtualRows.measureRow}
                         className="border-zinc-800 hover:bg-zinc-800/50 transition-colors"
                       >
+                        <TableCell className="py-2.5 w-8">
+                          <input
+                            type="checkbox"
+                            checked={compareSelection.includes(model.name)}
+                            onChange={() => toggleCompare(model.name)}
+                            aria-label={`Select ${model.name} for comparison`}
+                            className="h-4 w-4 accent-blue-500 cursor-pointer"
+                          />
+                        </TableCell>
+                        <TableCell className="py-2.5 w-8">
+                          <button
+                            onClick={() => toggleWatch(model.name)}
+                            aria-pressed={watchlist.includes(model.name)}
+                            aria-label={`${watchlist.includes(model.name) ? 'Unwatch' : 'Watch'} ${model.name}`}
+                            className="text-zinc-500 hover:text-yellow-400 transition-colors"
+                          >
+                            <Star className={`h-4 w-4 ${watchlist.includes(model.name) ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+                          </button>
+                        </TableCell>
                         <TableCell className="py-2.5">
-                          <div className="font-medium text-white">
+                          <Link href={`/models/${encodeURIComponent(model.name)}`} className="font-medium text-white hover:underline">
                             {model.name}
-                          </div>
+                          </Link>
+                          {localStatus.has(model.name) && renderLocalStatus(model.name)}
                           <div className="text-sm text-zinc-400 mt-1 max-w-52 lg:max-w-md truncate">
                             {model.description}
                           </div>
@@ -649,6 +1051,11 @@ export default function Home() {
                               </Badge>
                             )}
                           </div>
+                          {getParameterRange(model.versions) && (
+                            <div className="text-xs text-zinc-500 mt-1 font-mono">
+                              {getParameterRange(model.versions)}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="py-2.5 hidden md:table-cell">
                           <div className="font-mono text-sm text-white bg-zinc-800 px-2.5 py-0.5 rounded-md inline-flex items-center gap-1.5">
@@ -662,6 +1069,11 @@ export default function Home() {
                             {getMaxContext(model.versions)}
                           </div>
                         </TableCell>
+                        {hardwareProfile.enabled && (
+                          <TableCell className="py-2.5">
+                            {renderFit(modelFits.get(model.name))}
+                          </TableCell>
+                        )}
                         <TableCell className="py-2.5 text-right">
                           <Button
                             variant="outline"
@@ -676,9 +1088,21 @@ export default function Home() {
                         </TableCell>
                       </TableRow>
                     ))}
+                    {virtualRows.paddingBottom > 0 && (
+                      <tr aria-hidden="true" style={{ height: virtualRows.paddingBottom }}>
+                        <td colSpan={tableColumnCount} />
+                      </tr>
+                    )}
                   </TableBody>
                 </Table>
               </div>
+              <TablePagination
+                pageSize={pageSize}
+                onPageSizeChange={setPageSize}
+                page={page}
+                onPageChange={setPage}
+                rowCount={filteredAndSortedModels.length}
+              />
             </div>
           ) : models.length > 0 ? (
             // Models are loaded but none match search/filter
@@ -692,6 +1116,10 @@ export default function Home() {
                 onClick={() => {
                   setSearchTerm('');
                   setActiveCapabilityFilter(null);
+                  setWatchlistOnly(false);
+                  setFitFilter('all');
+                  setInstallFilter('all');
+                  setTagFilter(EMPTY_TAG_FILTER);
                 }}
                 variant="outline"
                 className="border-zinc-700 bg-zinc-800 hover:bg-zinc-700 text-white px-4 py-1 h-auto text-xs"
@@ -728,7 +1156,12 @@ export default function Home() {
           
           {/* Footer */}
           <div className="mt-10 text-center text-sm text-zinc-600 space-y-2">
-            <p>Data served from in-memory cache • {models.length} models loaded</p>
+            <p>
+              Data served from {storageKind === 'file' ? 'disk' : 'in-memory'} cache
+              {catalogSource === 'seed' && ' (bundled dataset)'}
+              {catalogSource === 'import' && ' (imported)'}
+              {' '}• {models.length} models loaded
+            </p>
             {lastUpdated && (
               <p className="text-xs">
                 Last updated: {new Date(lastUpdated).toLocaleString()}
@@ -737,6 +1170,15 @@ export default function Home() {
                 )}
               </p>
             )}
+            {failures.length > 0 && (
+              <p
+                className="text-xs text-yellow-600"
+                title={failures.map(failure => `${failure.model}: ${failure.error} (${failure.attempts} attempts)`).join('\n')}
+              >
+                {failures.length} model(s) could not be refreshed: {failures.map(failure => failure.model).join(', ')}
+                {failures.some(failure => failure.keptPrevious) && ' • previous versions kept'}
+              </p>
+            )}
             {!lastUpdated && (
               <p className="text-xs text-zinc-500">
                 No data loaded yet • Click "Refresh Data" to load models from Ollama.com
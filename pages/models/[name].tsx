@@ -0,0 +1,502 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ArrowLeft,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Clock,
+  Copy,
+  Download,
+  ExternalLink,
+  Search,
+  Tag
+} from 'lucide-react';
+
+import { ModelData, ModelVersion, ApiResponse, LocalModelsResponse, PullJob, PullEvent } from '@/lib/types';
+import { getTagInfo, getTagName, formatParameterCount } from '@/lib/tagInfo';
+import { splitLocalName } from '@/lib/localModels';
+import { useVirtualRows } from '@/lib/useVirtualRows';
+import { getCapabilityIcon } from '@/components/capability-icon';
+import { LocalModelActions } from '@/components/local-model-actions';
+import { PullQueuePanel } from '@/components/pull-queue-panel';
+
+type GroupBy = 'none' | 'parameters' | 'quantization' | 'variant';
+
+// Rows of the versions table: a header per group (when grouping) and one row per tag
+type VersionRow =
+  | { kind: 'group'; label: string; count: number; collapsed: boolean }
+  | { kind: 'version'; version: ModelVersion };
+
+const GROUP_OPTIONS: { value: GroupBy; label: string }[] = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'parameters', label: 'Parameters' },
+  { value: 'quantization', label: 'Quantization' },
+  { value: 'variant', label: 'Variant' }
+];
+
+// Full "model:tag" name of a version (tag names may or may not include the model prefix)
+const getFullTag = (model: ModelData, version: ModelVersion) =>
+  version.name.includes(':') ? version.name : `${model.name}:${version.name}`;
+
+// Build the "ollama pull" command for a version
+const getPullCommand = (model: ModelData, version: ModelVersion) => `ollama pull ${getFullTag(model, version)}`;
+
+// Ollama actions need the server's write token, kept for the browser session only
+const ACTION_TOKEN_KEY = 'ollamaActionsToken';
+
+// POST a JSON body to a local-models action route, throwing the server's message on failure
+const postAction = async (action: string, body: object, token: string) => {
+  const response = await fetch(`/api/local-models/${action}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`
+    },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.message || `HTTP ${response.status}`);
+  }
+};
+
+export default function ModelDetails() {
+  const router = useRouter();
+  const name = typeof router.query.name === 'string' ? router.query.name : null;
+
+  // State management
+  const [model, setModel] = useState<ModelData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [copiedCommand, setCopiedCommand] = useState<string | null>(null);
+  const [groupBy, setGroupBy] = useState<GroupBy>('none');
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [localModels, setLocalModels] = useState<LocalModelsResponse | null>(null);
+  const [pullJobs, setPullJobs] = useState<PullJob[]>([]);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [actionToken, setActionToken] = useState('');
+
+  const actionsEnabled = !!localModels?.available && localModels.actionsEnabled;
+
+  // Models pulled on the configured Ollama server
+  const fetchLocalModels = () => {
+    fetch('/api/local-models')
+      .then(response => response.json())
+      .then((data: LocalModelsResponse) => setLocalModels(data))
+      .catch(error => console.log('Local models unavailable:', error));
+  };
+
+  useEffect(() => {
+    fetchLocalModels();
+    setActionToken(sessionStorage.getItem(ACTION_TOKEN_KEY) || '');
+  }, []);
+
+  const updateActionToken = (token: string) => {
+    setActionToken(token);
+    sessionStorage.setItem(ACTION_TOKEN_KEY, token);
+  };
+
+  // Follow the server's pull queue; a finished pull changes what is installed
+  useEffect(() => {
+    if (!actionsEnabled) return;
+
+    const source = new EventSource('/api/local-models/pull-events');
+    source.addEventListener('snapshot', (message) => {
+      const event: Extract<PullEvent, { type: 'snapshot' }> = JSON.parse((message as MessageEvent).data);
+      setPullJobs(event.jobs);
+    });
+    source.addEventListener('job', (message) => {
+      const { job }: Extract<PullEvent, { type: 'job' }> = JSON.parse((message as MessageEvent).data);
+      setPullJobs(prev => prev.some(j => j.id === job.id) ? prev.map(j => j.id === job.id ? job : j) : [...prev, job]);
+      if (job.status === 'done') fetchLocalModels();
+    });
+
+    return () => source.close();
+  }, [actionsEnabled]);
+
+  // Run a pull, delete or copy; deletes and copies change the installed list right away
+  const runAction = async (action: string, body: object) => {
+    setActionError(null);
+    if (!actionToken) {
+      setActionError('Enter the write token to pull, delete or copy models');
+      return;
+    }
+    try {
+      await postAction(action, body, actionToken);
+      if (action === 'delete' || action === 'copy') fetchLocalModels();
+    } catch (error: any) {
+      setActionError(error.message);
+    }
+  };
+
+  // Load the cached catalog and pick out this model
+  useEffect(() => {
+    if (!name) return;
+
+    fetch('/api/models')
+      .then(response => response.json())
+      .then((data: ApiResponse) => {
+        setModel((data.models || []).find(m => m.name === name) || null);
+      })
+      .catch(error => console.log('No data found:', error))
+      .finally(() => setLoading(false));
+  }, [name]);
+
+  // Split versions into groups by the selected tag attribute, keeping scraped order
+  const versionGroups = useMemo(() => {
+    const versions = model?.versions || [];
+    if (groupBy === 'none') return [{ label: '', versions }];
+
+    const groups = new Map<string, { label: string; sortKey: number; versions: ModelVersion[] }>();
+    versions.forEach(version => {
+      const info = getTagInfo(version);
+      let label: string;
+      let sortKey = 0;
+
+      if (groupBy === 'parameters') {
+        label = info.parameterCount !== undefined ? formatParameterCount(info.parameterCount) : 'Unknown size';
+        sortKey = info.parameterCount ?? Infinity;
+      } else if (groupBy === 'quantization') {
+        label = info.quantization || 'Default quantization';
+        sortKey = -(info.precisionBits ?? Infinity);
+      } else {
+        label = info.variant || 'Default variant';
+      }
+
+      if (!groups.has(label)) groups.set(label, { label, sortKey, versions: [] });
+      groups.get(label)!.versions.push(version);
+    });
+
+    return Array.from(groups.values()).sort((a, b) => a.sortKey - b.sortKey || a.label.localeCompare(b.label));
+  }, [model, groupBy]);
+
+  // Groups start expanded whenever the grouping changes
+  useEffect(() => {
+    setCollapsedGroups(new Set());
+  }, [groupBy]);
+
+  const toggleGroup = (label: string) => {
+    setCollapsedGroups(current => {
+      const next = new Set(current);
+      if (next.has(label)) {
+        next.delete(label);
+      } else {
+        next.add(label);
+      }
+      return next;
+    });
+  };
+
+  // Flat row list, leaving out the tags of collapsed groups
+  const versionRows = useMemo(() => {
+    const rows: VersionRow[] = [];
+    versionGroups.forEach(group => {
+      const collapsed = collapsedGroups.has(group.label);
+      if (groupBy !== 'none') rows.push({ kind: 'group', label: group.label, count: group.versions.length, collapsed });
+      if (!collapsed) group.versions.forEach(version => rows.push({ kind: 'version', version }));
+    });
+    return rows;
+  }, [versionGroups, collapsedGroups, groupBy]);
+
+  // Models with hundreds of tags only render the rows scrolled into view
+  const virtualRows = useVirtualRows(versionRows.length, 52);
+
+  // Tags of this model installed locally
+  const installedTags = useMemo(() => {
+    const tags = new Set<string>();
+    (localModels?.available ? localModels.models : []).forEach(local => {
+      const { model: localName, tag } = splitLocalName(local.name);
+      if (localName === name) tags.add(tag);
+    });
+    return tags;
+  }, [localModels, name]);
+
+  // Copy a pull command and briefly show a check mark
+  const copyCommand = async (command: string) => {
+    try {
+      await navigator.clipboard.writeText(command);
+      setCopiedCommand(command);
+      setTimeout(() => setCopiedCommand(current => current === command ? null : current), 2000);
+    } catch (error) {
+      console.error('Failed to copy command:', error);
+    }
+  };
+
+  const columnCount = localModels?.available ? 9 : 8;
+
+  // One table row per tag
+  const renderVersionRow = (model: ModelData, version: ModelVersion) => {
+    const command = getPullCommand(model, version);
+    const fullTag = getFullTag(model, version);
+    const info = getTagInfo(version);
+    const installed = installedTags.has(getTagName(version)) || (!!version.isLatest && installedTags.has('latest'));
+    const job = pullJobs.find(j => j.model === fullTag && (j.status === 'queued' || j.status === 'pulling'));
+
+    return (
+      <TableRow key={version.name} ref={virtualRows.measureRow} className="border-zinc-800 hover:bg-zinc-800/50 transition-colors">
+        <TableCell className="py-2.5">
+          <div className="flex items-center gap-2">
+            <a href={version.url} target="_blank" rel="noopener noreferrer" className="font-medium text-white hover:underline">
+              {version.name}
+            </a>
+            {version.isLatest && (
+              <Badge className="bg-zinc-800 text-white border-zinc-700 flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                <span className="text-xs">latest</span>
+              </Badge>
+            )}
+          </div>
+        </TableCell>
+        <TableCell className="py-2.5 font-mono text-sm text-white">
+          {info.parameterCount !== undefined ? formatParameterCount(info.parameterCount) : '–'}
+          {info.activeParameterCount !== undefined && (
+            <span className="text-zinc-500"> ({formatParameterCount(info.activeParameterCount)} active)</span>
+          )}
+        </TableCell>
+        <TableCell className="py-2.5 font-mono text-sm text-zinc-300">{info.quantization || '–'}</TableCell>
+        <TableCell className="py-2.5 font-mono text-sm text-white">{version.size || 'N/A'}</TableCell>
+        <TableCell className="py-2.5 font-mono text-sm text-white">{version.context || 'N/A'}</TableCell>
+        <TableCell className="py-2.5 text-sm text-zinc-300">{version.input || 'N/A'}</TableCell>
+        <TableCell className="py-2.5 text-sm text-zinc-400">
+          <span title={version.updatedAt ? new Date(version.updatedAt).toLocaleString() : undefined}>
+            {version.updated || 'N/A'}
+          </span>
+        </TableCell>
+        <TableCell className="py-2.5">
+          <div className="flex items-center gap-2">
+            <code className="font-mono text-xs text-zinc-300 bg-zinc-800 px-2 py-1 rounded-md whitespace-nowrap">
+              {command}
+            </code>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => copyCommand(command)}
+              className="h-7 w-7 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-white hover:text-white"
+              aria-label={`Copy ${command}`}
+            >
+              {copiedCommand === command ? <Check className="h-3.5 w-3.5 text-green-400" /> : <Copy className="h-3.5 w-3.5" />}
+            </Button>
+          </div>
+        </TableCell>
+        {localModels?.available && (
+          <TableCell className="py-2.5">
+            <LocalModelActions
+              tag={fullTag}
+              size={version.size || 'unknown size'}
+              installed={installed}
+              actionsEnabled={actionsEnabled}
+              job={job}
+              onPull={tag => runAction('pull', { model: tag })}
+              onCancelPull={pullJob => runAction('cancel-pull', { id: pullJob.id })}
+              onDelete={tag => runAction('delete', { model: tag })}
+              onCopy={(tag, destination) => runAction('copy', { source: tag, destination })}
+            />
+          </TableCell>
+        )}
+      </TableRow>
+    );
+  };
+
+  // Loading state
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black text-white">
+        <div className="container mx-auto px-4 py-3">
+          <div className="h-5 w-32 bg-zinc-800/50 mb-6 rounded animate-pulse"></div>
+          <div className="h-10 w-64 bg-zinc-800/50 mb-3 rounded animate-pulse"></div>
+          <div className="h-5 w-full max-w-xl bg-zinc-800/30 mb-8 rounded animate-pulse"></div>
+          <div className="h-64 w-full bg-zinc-900 border border-zinc-800 rounded-lg animate-pulse"></div>
+        </div>
+      </div>
+    );
+  }
+
+  // Model not in the cache
+  if (!model) {
+    return (
+      <div className="min-h-screen bg-black text-white">
+        <div className="container mx-auto px-4 py-3">
+          <Link href="/" className="inline-flex items-center text-sm text-zinc-400 hover:text-white transition-colors mb-6">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            <span>All models</span>
+          </Link>
+          <div className="text-center py-16 bg-zinc-900 rounded-lg border border-zinc-800 shadow-lg">
+            <div className="inline-block rounded-full bg-zinc-800 p-5 mb-6 border border-zinc-700">
+              <Search className="h-8 w-8 text-zinc-500" />
+            </div>
+            <h3 className="text-2xl font-medium text-white mb-3">Model not found</h3>
+            <p className="text-zinc-400">
+              {name ? <><span className="text-white">{name}</span> is not in the cached catalog.</> : 'No model selected.'}
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Main UI
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="container mx-auto px-4 py-3">
+        {/* Back link */}
+        <Link href="/" className="inline-flex items-center text-sm text-zinc-400 hover:text-white transition-colors mb-6">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          <span>All models</span>
+        </Link>
+
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-semibold text-white mb-2">{model.name}</h1>
+            <p className="text-zinc-400 max-w-3xl">{model.description}</p>
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              {model.capabilities.map((capability, idx) => (
+                <Badge
+                  key={idx}
+                  variant="secondary"
+                  className="bg-zinc-800 text-white border-zinc-700 flex items-center gap-1.5 py-1 h-auto"
+                >
+                  {getCapabilityIcon(capability)}
+                  <span className="text-xs capitalize">{capability.toLowerCase()}</span>
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            variant="outline"
+            size="sm"
+            asChild
+            className="text-xs bg-zinc-800 border-zinc-700 hover:bg-zinc-700 text-white shrink-0"
+          >
+            <a href={model.url} target="_blank" rel="noopener noreferrer">
+              <ExternalLink className="h-3 w-3 mr-1" />
+              View on ollama.com
+            </a>
+          </Button>
+        </div>
+
+        {/* Summary stats */}
+        <div className="flex flex-wrap gap-6 text-sm text-zinc-400 mb-6">
+          <div className="flex items-center gap-1.5">
+            <Download className="h-4 w-4" />
+            <span><span className="text-white">{model.pulls || 'N/A'}</span> pulls</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <Tag className="h-4 w-4" />
+            <span><span className="text-white">{model.tags || model.versions.length}</span> tags</span>
+          </div>
+          {model.updated && (
+            <div className="flex items-center gap-1.5">
+              <Clock className="h-4 w-4" />
+              <span>Updated <span className="text-white">{model.updated}</span></span>
+            </div>
+          )}
+        </div>
+
+        {/* Grouping */}
+        <div className="flex items-center gap-1.5 mb-3">
+          {GROUP_OPTIONS.map(option => (
+            <Button
+              key={option.value}
+              variant="outline"
+              size="sm"
+              onClick={() => setGroupBy(option.value)}
+              className={`rounded-full text-xs font-medium px-3 py-0.5 h-7 ${groupBy === option.value ? 'bg-zinc-700 hover:bg-zinc-600 text-white border-zinc-600' : 'bg-transparent border-zinc-700 text-zinc-300 hover:bg-zinc-900 hover:text-white'}`}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+
+        {actionsEnabled && (
+          <div className="flex items-center gap-2 mb-3 text-xs text-zinc-400">
+            <span>Ollama actions</span>
+            <Input
+              type="password"
+              placeholder="Write token"
+              value={actionToken}
+              onChange={(e) => updateActionToken(e.target.value)}
+              className="h-7 w-48 text-xs bg-zinc-950 border-zinc-800 text-white"
+            />
+          </div>
+        )}
+
+        {/* Pull queue */}
+        <PullQueuePanel jobs={pullJobs} onCancel={job => runAction('cancel-pull', { id: job.id })} />
+
+        {actionError && (
+          <div className="mb-3 text-xs text-red-400">{actionError}</div>
+        )}
+
+        {/* Versions table */}
+        <div className="overflow-hidden bg-zinc-900 border border-zinc-800 rounded-lg shadow-xl">
+          {/* This div scrolls (the table's own container must not), so the header can stick */}
+          <div
+            ref={virtualRows.containerRef}
+            className="max-h-[75vh] overflow-auto [&_[data-slot=table-container]]:overflow-visible">
+            <Table>
+              <TableHeader className="sticky top-0 z-10">
+                <TableRow className="border-zinc-800 hover:bg-transparent bg-zinc-950">
+                  <TableHead className="py-2.5 text-zinc-300 font-medium">Tag</TableHead>
+                  <TableHead className="py-2.5 text-zinc-300 font-medium">Params</TableHead>
+                  <TableHead className="py-2.5 text-zinc-300 font-medium">Quant</TableHead>
+                  <TableHead className="py-2.5 text-zinc-300 font-medium">Size</TableHead>
+                  <TableHead className="py-2.5 text-zinc-300 font-medium">Context</TableHead>
+                  <TableHead className="py-2.5 text-zinc-300 font-medium">Input</TableHead>
+                  <TableHead className="py-2.5 text-zinc-300 font-medium">Updated</TableHead>
+                  <TableHead className="py-2.5 text-zinc-300 font-medium">Pull command</TableHead>
+                  {localModels?.available && (
+                    <TableHead className="py-2.5 text-zinc-300 font-medium">Local</TableHead>
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {model.versions.length === 0 ? (
+                  <TableRow className="border-zinc-800">
+                    <TableCell colSpan={columnCount} className="py-8 text-center text-zinc-400">
+                      No tags were scraped for this model
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  <>
+                    {virtualRows.paddingTop > 0 && (
+                      <tr aria-hidden="true" style={{ height: virtualRows.paddingTop }}>
+                        <td colSpan={columnCount} />
+                      </tr>
+                    )}
+                    {versionRows.slice(virtualRows.start, virtualRows.end).map(row => row.kind === 'group' ? (
+                      <TableRow key={`group:${row.label}`} ref={virtualRows.measureRow} className="border-zinc-800 hover:bg-transparent bg-zinc-950/60">
+                        <TableCell colSpan={columnCount} className="py-2">
+                          <button
+                            onClick={() => toggleGroup(row.label)}
+                            aria-expanded={!row.collapsed}
+                            className="flex items-center gap-1 text-xs font-medium text-zinc-400 hover:text-white uppercase tracking-wide"
+                          >
+                            {row.collapsed ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+                            {row.label} <span className="text-zinc-600">({row.count})</span>
+                          </button>
+                        </TableCell>
+                      </TableRow>
+                    ) : renderVersionRow(model, row.version))}
+                    {virtualRows.paddingBottom > 0 && (
+                      <tr aria-hidden="true" style={{ height: virtualRows.paddingBottom }}>
+                        <td colSpan={columnCount} />
+                      </tr>
+                    )}
+                  </>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}